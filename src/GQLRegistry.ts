@@ -1,57 +1,258 @@
-import { RESTDataSource } from 'apollo-datasource-rest'
-import { DefinitionNode, DirectiveDefinitionNode, DocumentNode, FieldDefinitionNode, GraphQLSchema, ObjectTypeDefinitionNode, TypeDefinitionNode, TypeExtensionNode, print, Kind } from 'graphql'
-import { RenameInputObjectFields, RenameInterfaceFields, RenameObjectFields, RenameRootFields, RenameRootTypes, RenameTypes, wrapSchema } from '@graphql-tools/wrap'
-import { Transform } from '@graphql-tools/delegate'
+import { EventEmitter } from 'events'
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+import { buildSubgraphSchema } from '@apollo/subgraph'
+import { ASTNode, buildASTSchema, DefinitionNode, DirectiveDefinitionNode, DirectiveNode, DocumentNode, EnumValueDefinitionNode, FieldDefinitionNode, GraphQLSchema, InputValueDefinitionNode, NamedTypeNode, ObjectTypeDefinitionNode, ObjectTypeExtensionNode, printSchema, Source, StringValueNode, TypeDefinitionNode, TypeExtensionNode, extendSchema, lexicographicSortSchema, parse, print, visit, Kind } from 'graphql'
+import { wrapSchema } from '@graphql-tools/wrap'
+import { SubschemaConfig, Transform } from '@graphql-tools/delegate'
 import { makeExecutableSchema } from '@graphql-tools/schema'
 import { stitchSchemas } from '@graphql-tools/stitch'
 import { AsyncExecutor } from '@graphql-tools/utils'
 import { pascalCase, camelCase } from 'change-case'
+import { applyAuthDirectives, createAuthDirectiveDefinitions, defaultRoleResolver, GQLPolicy, GQLRoleResolver, usesAuthDirectives } from './GQLRegistryAuth'
+import { createBatchedExecutor, GQLBatchedExecutor, GQLBatchingOptions, GQLBatchingStats } from './GQLRegistryBatching'
+import { generateTypeScript, GQLCodegenOptions } from './GQLRegistryCodegen'
+import { GQLContextContributor, GQLContextContributorFn, GQLContextContributorOptions, orderContextContributors, runContextContributors } from './GQLRegistryContext'
+import { createDataSourceContributor, disposeDataSources, GQLDataSource, GQLDataSourceFactory, GQLRegisteredDataSource } from './GQLRegistryDataSources'
+import { applyFederationDirectives, getEntityKeys, GQLRegistryEntityConfig, stripFederationDirectives, validateFederation } from './GQLRegistryFederation'
+import { createMergeConfig, GQLRegistryMergeConfigMap } from './GQLRegistryMerge'
+import { applyMiddleware, createFieldMatcher, GQLRegisteredMiddleware, GQLResolverMiddleware } from './GQLRegistryMiddleware'
+import { discoverModules, getModuleKind, GQLRegistryModuleFile, isModuleIncluded, LoadModulesArgs } from './GQLRegistryModules'
+import { createTypeRenamer, GQLRegistryMountCollision, GQLRegistryMountOptions, prefixKeys, renameRootFields, renameTypeResolvers, renameTypesInNode } from './GQLRegistryMount'
 import { GQLRegistryPlugin } from './GQLRegistryPlugin'
+import { createHttpExecutor, createNamespaceTransforms, createNamingTransforms, createWebSocketExecutor, GQLRemoteFailurePolicy, GQLRemoteHeaders, GQLRemoteNamespace, GQLRemoteNaming, GQLRemoteSchemaHealth, GQLRemoteSchemaLoader, GQLWebSocketExecutorOptions, GQLWebSocketTransport, loadRemoteSchema, readCachedSchema, routeSubscriptions, writeCachedSchema } from './GQLRegistryRemote'
+import { GQLRegistryDiagnostic, validateResolvers } from './GQLRegistryValidation'
+import { diffLines, diffSchemas, GQLSchemaChange, GQLSchemaChangeSeverity } from './GQLSchemaDiff'
 import { GraphQLError } from 'graphql'
 
 export type Mutable<T> = {
   -readonly [P in keyof T]: T[P];
 }
 
+type TypeMemberNode = FieldDefinitionNode | InputValueDefinitionNode | EnumValueDefinitionNode
+
 // eslint-disable-next-line
 type PreStartFunction = (graphQLRegistry: GQLRegistry) => Promise<void> | void
 
+/**
+ * A parsed document, a raw SDL string or a path to a .graphql/.gql file
+ */
+
+export type GQLRegistryDocument = DocumentNode | string
+
 interface RegisterDirectiveArgs {
-  directiveDefinition?: DocumentNode
+  source?: string
+  directiveDefinition?: GQLRegistryDocument
   directiveResolvers?: { [k: string]: (schema: GraphQLSchema) => GraphQLSchema }
 }
 
-interface RegisterTypeArgs {
-  typeDefinitions?: DocumentNode
-  queryDefinitions?: DocumentNode
-  mutationDefinitions?: DocumentNode
-  subscriptionDefinitions?: DocumentNode
-  typeResolvers?: { [k: string]: any }
-  queryResolvers?: { [k: string]: any }
-  mutationResolvers?: { [k: string]: any }
-  subscriptionResolvers?: { [k: string]: any }
+/**
+ * Resolver map types accepted by registerType and registerTypeExtension, generateTypes emits a RegistryResolvers interface matching the built schema
+ */
+
+export interface GQLRegistryResolverMaps {
+  typeResolvers?: object
+  queryResolvers?: object
+  mutationResolvers?: object
+  subscriptionResolvers?: object
+}
+
+interface UntypedResolverMaps {
+  typeResolvers: { [k: string]: any }
+  queryResolvers: { [k: string]: any }
+  mutationResolvers: { [k: string]: any }
+  subscriptionResolvers: { [k: string]: any }
+}
+
+interface RegisterTypeArgs<R extends GQLRegistryResolverMaps = UntypedResolverMaps> {
+  source?: string
+  typeDefinitions?: GQLRegistryDocument
+  queryDefinitions?: GQLRegistryDocument
+  mutationDefinitions?: GQLRegistryDocument
+  subscriptionDefinitions?: GQLRegistryDocument
+  typeResolvers?: R['typeResolvers']
+  queryResolvers?: R['queryResolvers']
+  mutationResolvers?: R['mutationResolvers']
+  subscriptionResolvers?: R['subscriptionResolvers']
+  entities?: { [typeName: string]: GQLRegistryEntityConfig }
+  merge?: GQLRegistryMergeConfigMap
+}
+
+interface RegisterTypeExtensionArgs<R extends GQLRegistryResolverMaps = UntypedResolverMaps> {
+  source?: string
+  extensionTypeDefinitions?: GQLRegistryDocument
+  extensionQueryDefinitions?: GQLRegistryDocument
+  extensionMutationDefinitions?: GQLRegistryDocument
+  extensionSubscriptionDefinitions?: GQLRegistryDocument
+  extensionTypeResolvers?: R['typeResolvers']
+  extensionQueryResolvers?: R['queryResolvers']
+  extensionMutationResolvers?: R['mutationResolvers']
+  extensionSubscriptionResolvers?: R['subscriptionResolvers']
+}
+
+export type GQLRegistryConflictPolicy = 'warn' | 'error' | 'keep-first' | 'last-wins'
+
+export type GQLRegistryConflictKind = 'type' | 'field' | 'directive' | 'resolver' | 'directiveResolver' | 'contextContributor'
+
+export interface GQLRegistryProvenance {
+  source: string
+  plugin?: string
+  hook?: string
+}
+
+export interface GQLRegistryHistoryEntry extends GQLRegistryProvenance {
+  kind: GQLRegistryConflictKind
+  coordinate: string
+  action: 'added' | 'replaced' | 'extended' | 'merged' | 'removed'
+  extension: boolean
+}
+
+export interface GQLRegistryConflict {
+  kind: GQLRegistryConflictKind
+  coordinate: string
+  extension: boolean
+  policy: GQLRegistryConflictPolicy
+  resolution: 'replaced' | 'kept' | 'rejected'
+  incoming: GQLRegistryProvenance
+  existing: GQLRegistryHistoryEntry | null
+  detail?: string
+}
+
+export interface GQLRegistryLoadedModule extends GQLRegistryModuleFile {
+  registered: GQLRegistryHistoryEntry[]
+  plugins: string[]
+}
+
+export interface GQLRegistryModuleManifest {
+  directory: string
+  modules: GQLRegistryLoadedModule[]
+}
+
+export type GQLRegistryTypeMergeMode = 'replace' | 'merge'
+
+export interface GQLRegistryRemoteSchemaChange {
+  name: string
+  schema: GraphQLSchema
+  changes: GQLSchemaChange[]
+}
+
+export interface GQLRegistryEvents {
+  schemaChanged: (schema: GraphQLSchema, changes: GQLSchemaChange[]) => void
+  remoteSchemaChanged: (change: GQLRegistryRemoteSchemaChange) => void
+  remoteSchemaError: (error: Error, name: string) => void
+  reloadError: (error: Error) => void
+}
+
+export interface GQLRegistryPrintSDLOptions {
+  includeRemote?: boolean
+  includeExtensions?: boolean
+  sorted?: boolean
+  file?: string
+}
+
+export interface GQLRegistrySnapshotOptions extends Omit<GQLRegistryPrintSDLOptions, 'file'> {
+  update?: boolean
 }
 
-interface RegisterTypeExtensionArgs {
-  extensionTypeDefinitions?: DocumentNode
-  extensionQueryDefinitions?: DocumentNode
-  extensionMutationDefinitions?: DocumentNode
-  extensionSubscriptionDefinitions?: DocumentNode
-  extensionTypeResolvers?: { [k: string]: any }
-  extensionQueryResolvers?: { [k: string]: any }
-  extensionMutationResolvers?: { [k: string]: any }
-  extensionSubscriptionResolvers?: { [k: string]: any }
+export interface GQLRegistryWatcher {
+  manifest: GQLRegistryModuleManifest
+  close(): void
+}
+
+export interface GQLRegistryOptions {
+  conflictPolicy?: GQLRegistryConflictPolicy
+  typeMergeMode?: GQLRegistryTypeMergeMode
+  remoteSchemaCacheDirectory?: string
+  reportSchemaChanges?: GQLSchemaChangeSeverity | 'none'
+  getRoles?: GQLRoleResolver
+}
+
+interface RegistrationState {
+  directiveDefinitions: DirectiveDefinitionNode[]
+  directiveResolvers: { [k: string]: (schema: GraphQLSchema) => GraphQLSchema }
+  typeDefinitions: TypeDefinitionNode[]
+  queryDefinitions: FieldDefinitionNode[]
+  mutationDefinitions: FieldDefinitionNode[]
+  subscriptionDefinitions: FieldDefinitionNode[]
+  typeResolvers: { [s: string]: any }
+  queryResolvers: { [s: string]: any }
+  mutationResolvers: { [s: string]: any }
+  subscriptionResolvers: { [s: string]: any }
+  extensionTypeDefinitions: TypeExtensionNode[]
+  extensionQueryDefinitions: FieldDefinitionNode[]
+  extensionMutationDefinitions: FieldDefinitionNode[]
+  extensionSubscriptionDefinitions: FieldDefinitionNode[]
+  extensionTypeResolvers: { [k: string]: any }
+  extensionQueryResolvers: { [k: string]: any }
+  extensionMutationResolvers: { [k: string]: any }
+  extensionSubscriptionResolvers: { [k: string]: any }
+  entities: { [typeName: string]: GQLRegistryEntityConfig }
+  mergedTypes: GQLRegistryMergeConfigMap
+  internalValues: { [s: string]: any }
+  conflicts: GQLRegistryConflict[]
+  history: { [coordinate: string]: GQLRegistryHistoryEntry[] }
+}
+
+interface RegisterDataSourceArgs<T extends GQLDataSource, TRequest = unknown> {
+  name: string
+  factory?: GQLDataSourceFactory<T, TRequest>
+  dataSource?: T
+  dependsOn?: string[]
 }
 
 interface RegisterRemoteSchemaArgs {
   name: string
+  url?: string
+  headers?: GQLRemoteHeaders
+  forwardHeaders?: string[]
+  timeout?: number
+  schemaLoader?: GQLRemoteSchemaLoader
+  subscriptionUrl?: string
+  connectionParams?: GQLWebSocketExecutorOptions['connectionParams']
+  subscriptionExecutor?: AsyncExecutor
+  pollInterval?: number
+  onFailure?: GQLRemoteFailurePolicy
+  cacheFile?: string
+  naming?: GQLRemoteNaming
+  namespace?: GQLRemoteNamespace
+  merge?: GQLRegistryMergeConfigMap
+  batch?: boolean | GQLBatchingOptions
   asyncSchema?: () => Promise<GraphQLSchema>
   schema?: GraphQLSchema
-  executor: AsyncExecutor
+  executor?: AsyncExecutor
   executable?: GraphQLSchema
   transforms?: Transform[]
 }
 
+interface RegisteredRemoteSchema extends RegisterRemoteSchemaArgs {
+  registration: RegisterRemoteSchemaArgs
+  executor: AsyncExecutor
+  subscriptionTransport?: GQLWebSocketTransport
+  batching?: GQLBatchedExecutor
+  loadedSchema?: GraphQLSchema
+}
+
+export type GQLRegistryRootTypeName = 'Query' | 'Mutation' | 'Subscription'
+
+const rootTypeNames = ['Query', 'Mutation', 'Subscription']
+
+const rootRegistrationKeys = {
+  Query: {
+    definitions: ['queryDefinitions', 'extensionQueryDefinitions'],
+    resolvers: ['queryResolvers', 'extensionQueryResolvers'],
+  },
+  Mutation: {
+    definitions: ['mutationDefinitions', 'extensionMutationDefinitions'],
+    resolvers: ['mutationResolvers', 'extensionMutationResolvers'],
+  },
+  Subscription: {
+    definitions: ['subscriptionDefinitions', 'extensionSubscriptionDefinitions'],
+    resolvers: ['subscriptionResolvers', 'extensionSubscriptionResolvers'],
+  },
+} as const
+
 const typeDefinitionTypes = [
   'ScalarTypeDefinition',
   'ObjectTypeDefinition',
@@ -78,6 +279,155 @@ function isTypeExtensionNode(definition: DefinitionNode): boolean {
   return typeExtensionTypes.includes(definition.kind)
 }
 
+function getTypeFields(definition: TypeDefinitionNode | TypeExtensionNode): readonly TypeMemberNode[] {
+  if ('fields' in definition && definition.fields) {
+    return definition.fields
+  }
+  if ('values' in definition && definition.values) {
+    return definition.values
+  }
+  return []
+}
+
+const mergeableTypeKinds = [
+  'ScalarTypeDefinition',
+  'ObjectTypeDefinition',
+  'InterfaceTypeDefinition',
+  'UnionTypeDefinition',
+  'EnumTypeDefinition',
+  'InputObjectTypeDefinition',
+  'ScalarTypeExtension',
+  'ObjectTypeExtension',
+  'InterfaceTypeExtension',
+  'UnionTypeExtension',
+  'EnumTypeExtension',
+  'InputObjectTypeExtension',
+]
+
+function canMergeTypes(existing: TypeDefinitionNode | TypeExtensionNode, incoming: TypeDefinitionNode | TypeExtensionNode): boolean {
+  return existing.kind === incoming.kind && mergeableTypeKinds.includes(incoming.kind)
+}
+
+/**
+ * Prints the parts of a field, input value or enum value that must agree across merged declarations
+ */
+
+function getMemberSignature(member: TypeMemberNode): string {
+  if ('arguments' in member && member.arguments) {
+    return print({ ...member, description: undefined, directives: [], arguments: member.arguments.map((arg) => ({ ...arg, description: undefined, directives: [] })) })
+  }
+  return print({ ...member, description: undefined, directives: [] })
+}
+
+function mergeDescriptions(existing?: StringValueNode, incoming?: StringValueNode): StringValueNode | undefined {
+  if (!existing || !incoming || existing.value === incoming.value) {
+    return existing ?? incoming
+  }
+  return { ...existing, value: `${existing.value}\n\n${incoming.value}`, block: true }
+}
+
+function mergeNamedTypes(existing: readonly NamedTypeNode[] = [], incoming: readonly NamedTypeNode[] = []): NamedTypeNode[] {
+  const merged = [...existing]
+  for (let n = 0; n < incoming.length; n++) {
+    if (!merged.find((named) => named.name.value === incoming[n].name.value)) {
+      merged.push(incoming[n])
+    }
+  }
+  return merged
+}
+
+function isPlainObject(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+interface CallerLocation {
+  file: string
+  line: number
+}
+
+/**
+ * Finds the first stack frame outside of the registry so registrations can be traced back to the module that made them
+ */
+
+function getCallerLocation(): CallerLocation | null {
+  const stack = (new Error().stack ?? '').split('\n').slice(1)
+  for (let l = 0; l < stack.length; l++) {
+    const match = stack[l].match(/\(?([^\s()]+):(\d+):(\d+)\)?$/)
+    if (match) {
+      const file = match[1].startsWith('file:') ? fileURLToPath(match[1]) : match[1]
+      if (!file.startsWith(__dirname) && !file.startsWith('node:')) {
+        return { file, line: parseInt(match[2], 10) }
+      }
+    }
+  }
+  return null
+}
+
+function getCallerSource(caller: CallerLocation | null = getCallerLocation()): string {
+  return caller ? `${caller.file}:${caller.line}` : 'unknown'
+}
+
+function isSchemaFilePath(value: string): boolean {
+  return !value.includes('\n') && /\.(graphql|gql)$/i.test(value.trim())
+}
+
+function resolveFromCaller(filePath: string, caller: CallerLocation | null): string {
+  return path.resolve(caller ? path.dirname(caller.file) : process.cwd(), filePath)
+}
+
+/**
+ * Parses SDL rethrowing syntax errors with the file (or registering module) and line they occurred on
+ */
+
+function parseSchema(body: string, name: string, caller: CallerLocation | null = null): DocumentNode {
+  try {
+    return parse(new Source(body, name))
+  } catch (err) {
+    if (err instanceof GraphQLError && err.locations?.length) {
+      const { line, column } = err.locations[0]
+      const location = caller ? `line ${line}:${column} of SDL registered at ${getCallerSource(caller)}` : `${name}:${line}:${column}`
+      throw new GraphQLError(`${err.message} (${location})`, {
+        originalError: err,
+        extensions: {
+          code: 'SCHEMA_PARSE_ERROR',
+          file: caller ? caller.file : name,
+          line,
+          column,
+        },
+      })
+    }
+    throw err
+  }
+}
+
+function readSchemaFile(filePath: string): DocumentNode {
+  if (!fs.existsSync(filePath)) {
+    throw new GraphQLError(`Cannot find schema file ${filePath}`, {
+      extensions: {
+        code: 'SCHEMA_FILE_NOT_FOUND',
+        file: filePath,
+      },
+    })
+  }
+  return parseSchema(fs.readFileSync(filePath, 'utf8'), filePath)
+}
+
+function loadDocument(document: GQLRegistryDocument, caller: CallerLocation | null): DocumentNode
+function loadDocument(document: GQLRegistryDocument | undefined, caller: CallerLocation | null): DocumentNode | undefined
+function loadDocument(document: GQLRegistryDocument | undefined, caller: CallerLocation | null): DocumentNode | undefined {
+  if (typeof document !== 'string') {
+    return document
+  }
+  if (isSchemaFilePath(document)) {
+    return readSchemaFile(resolveFromCaller(document.trim(), caller))
+  }
+  return parseSchema(document, 'inline SDL', caller)
+}
+
 let instance: any = null
 
 export class GQLRegistry {
@@ -89,7 +439,90 @@ export class GQLRegistry {
     return instance
   }
 
-  remoteSchemas: { [k: string]: RegisterRemoteSchemaArgs } = {}
+  /**
+   * Imports every schema, resolver and plugin module under a directory in a deterministic order and reports what each one registered
+   */
+
+  static async loadModules(args: LoadModulesArgs & { registry?: GQLRegistry }): Promise<GQLRegistryModuleManifest> {
+    const registry = args.registry ?? GQLRegistry.shared()
+    const directory = resolveFromCaller(args.directory, getCallerLocation())
+    const files = discoverModules({ ...args, directory })
+    const modules: GQLRegistryLoadedModule[] = []
+    for (let f = 0; f < files.length; f++) {
+      modules.push(registry.loadModule(files[f]))
+    }
+    return { directory, modules }
+  }
+
+  /**
+   * Loads the modules under a directory and reloads any module that changes afterwards, the registrations made by the previous version of a module are removed before it is imported again and the schema is rebuilt
+   */
+
+  static async watchModules(args: LoadModulesArgs & { registry?: GQLRegistry, debounce?: number }): Promise<GQLRegistryWatcher> {
+    const registry = args.registry ?? GQLRegistry.shared()
+    const directory = resolveFromCaller(args.directory, getCallerLocation())
+    const manifest = await GQLRegistry.loadModules({ ...args, directory, registry })
+    const loaded: { [file: string]: GQLRegistryLoadedModule } = {}
+    manifest.modules.forEach((moduleFile) => {
+      loaded[moduleFile.file] = moduleFile
+    })
+    let changedFiles: string[] = []
+    let timer: NodeJS.Timeout | null = null
+    const reload = async () => {
+      const files = changedFiles
+      changedFiles = []
+      try {
+        for (let f = 0; f < files.length; f++) {
+          const file = files[f]
+          const previous = loaded[file]
+          if (previous) {
+            registry.unregisterSource(file)
+            previous.plugins.forEach((name) => registry.unregisterPlugin(name))
+            delete loaded[file]
+          }
+          if (fs.existsSync(file)) {
+            loaded[file] = registry.loadModule({ file, relativePath: path.relative(directory, file).split(path.sep).join('/'), kind: getModuleKind(file) })
+          }
+        }
+        manifest.modules = Object.values(loaded)
+        await registry.rebuild()
+      } catch (err) {
+        registry.events.emit('reloadError', err)
+      }
+    }
+    const watcher = fs.watch(directory, { recursive: true }, (_event, filename) => {
+      const relativePath = filename?.toString().split(path.sep).join('/')
+      if (!relativePath || !isModuleIncluded(relativePath, args)) {
+        return
+      }
+      const file = path.join(directory, relativePath)
+      if (!changedFiles.includes(file)) {
+        changedFiles.push(file)
+      }
+      if (timer) {
+        clearTimeout(timer)
+      }
+      timer = setTimeout(() => {
+        timer = null
+        reload()
+      }, args.debounce ?? 100)
+    })
+    return {
+      manifest,
+      close: () => {
+        if (timer) {
+          clearTimeout(timer)
+        }
+        watcher.close()
+      },
+    }
+  }
+
+  private events = new EventEmitter()
+  private pollTimers: { [name: string]: NodeJS.Timeout } = {}
+  private contextDataSources = new WeakMap<object, GQLDataSource[]>()
+
+  remoteSchemas: { [k: string]: RegisteredRemoteSchema } = {}
 
   directiveDefinitions: DirectiveDefinitionNode[] = []
   directiveResolvers: { [s: string]: (schema: GraphQLSchema) => GraphQLSchema } = {}
@@ -114,17 +547,46 @@ export class GQLRegistry {
   extensionMutationResolvers: { [k: string]: any } = {}
   extensionSubscriptionResolvers: { [k: string]: any } = {}
 
+  entities: { [typeName: string]: GQLRegistryEntityConfig } = {}
+  mergedTypes: GQLRegistryMergeConfigMap = {}
+
   internalValues: { [s: string]: any } = {}
   executableSchema: GraphQLSchema | null = null
-  dataSources: { [k: string]: RESTDataSource } = {}
+  lastBuiltSchema: GraphQLSchema | null = null
+  remoteSchemaHealth: { [name: string]: GQLRemoteSchemaHealth } = {}
+  dataSources: { [name: string]: GQLRegisteredDataSource } = {}
+  contextContributors: { [name: string]: GQLContextContributor } = {}
+  middlewares: GQLRegisteredMiddleware[] = []
+  policies: { [name: string]: GQLPolicy<any> } = {}
   preStartFunctions: PreStartFunction[] = []
+  executedPreStartFunctions: PreStartFunction[] = []
   hasExecutedPreStart = false
   hasProcessedPlugins = false
+  isProcessingPlugins = false
+  pluginBaseState: RegistrationState | null = null
 
   plugins: GQLRegistryPlugin[] = []
 
+  options: Required<GQLRegistryOptions> = {
+    conflictPolicy: 'warn',
+    typeMergeMode: 'replace',
+    remoteSchemaCacheDirectory: path.join(process.cwd(), '.gqlregistry'),
+    reportSchemaChanges: 'breaking',
+    getRoles: defaultRoleResolver,
+  }
+
+  conflicts: GQLRegistryConflict[] = []
+  history: { [coordinate: string]: GQLRegistryHistoryEntry[] } = {}
+
+  constructor(options: GQLRegistryOptions = {}) {
+    this.configure(options)
+  }
+
   clear(): void {
+    this.stopPolling()
+    Object.keys(this.remoteSchemas).forEach((name: string) => this.remoteSchemas[name].subscriptionTransport?.dispose())
     this.remoteSchemas = {}
+    this.remoteSchemaHealth = {}
 
     this.directiveDefinitions = []
     this.directiveResolvers = {}
@@ -149,78 +611,401 @@ export class GQLRegistry {
     this.extensionTypeResolvers = {}
     this.extensionSubscriptionResolvers = {}
 
+    this.entities = {}
+    this.mergedTypes = {}
+
     this.internalValues = {}
     this.executableSchema = null
+    this.lastBuiltSchema = null
     this.dataSources = {}
+    this.contextContributors = {}
+    this.middlewares = []
+    this.policies = {}
+    this.preStartFunctions = []
+    this.executedPreStartFunctions = []
+    this.hasExecutedPreStart = false
     this.hasProcessedPlugins = false
+    this.pluginBaseState = null
+    this.conflicts = []
+    this.history = {}
     this.plugins?.forEach((plu) => plu.clear?.())
   }
 
+  configure(options: GQLRegistryOptions): void {
+    this.options = {
+      ...this.options,
+      ...options,
+    }
+  }
+
+  getConflicts(): GQLRegistryConflict[] {
+    return [...this.conflicts]
+  }
+
+  /**
+   * Returns the full registration history of a type (Book), field (Book.author) or directive (@upper)
+   */
+
+  explain(coordinate: string): GQLRegistryHistoryEntry[] {
+    return [...(this.history[coordinate] ?? [])]
+  }
+
+  getHistorySnapshot(): { [coordinate: string]: number } {
+    const snapshot: { [coordinate: string]: number } = {}
+    Object.keys(this.history).forEach((coordinate: string) => {
+      snapshot[coordinate] = this.history[coordinate].length
+    })
+    return snapshot
+  }
+
+  getHistorySince(snapshot: { [coordinate: string]: number }): GQLRegistryHistoryEntry[] {
+    const entries: GQLRegistryHistoryEntry[] = []
+    Object.keys(this.history).forEach((coordinate: string) => {
+      entries.push(...this.history[coordinate].slice(snapshot[coordinate] ?? 0))
+    })
+    return entries
+  }
+
+  getLatestHistoryEntry(coordinate: string, kind: GQLRegistryConflictKind): GQLRegistryHistoryEntry | null {
+    return [...(this.history[coordinate] ?? [])].reverse().find((entry) => entry.kind === kind) ?? null
+  }
+
+  recordHistory(kind: GQLRegistryConflictKind, coordinate: string, action: GQLRegistryHistoryEntry['action'], provenance: GQLRegistryProvenance, extension = false): void {
+    if (!this.history[coordinate]) {
+      this.history[coordinate] = []
+    }
+    this.history[coordinate].push({
+      ...provenance,
+      kind,
+      coordinate,
+      action,
+      extension,
+    })
+  }
+
+  recordFieldHistory(typeName: string, fields: readonly TypeMemberNode[], previousFields: readonly TypeMemberNode[], provenance: GQLRegistryProvenance, extension = false): void {
+    for (let f = 0; f < fields.length; f++) {
+      const field = fields[f]
+      const previous = previousFields.find((prev) => prev.name.value === field.name.value)
+      if (!previous) {
+        this.recordHistory('field', `${typeName}.${field.name.value}`, 'added', provenance, extension)
+      } else if (print(previous) !== print(field)) {
+        this.recordHistory('field', `${typeName}.${field.name.value}`, 'replaced', provenance, extension)
+      }
+    }
+  }
+
+  recordResolverHistory(typeName: string, resolvers: { [k: string]: any }, previousResolvers: { [k: string]: any }, provenance: GQLRegistryProvenance, extension = false): void {
+    Object.keys(resolvers).forEach((name: string) => {
+      if (previousResolvers[name] === resolvers[name]) {
+        return
+      }
+      this.recordHistory('resolver', `${typeName}.${name}`, previousResolvers[name] === undefined ? 'added' : 'replaced', provenance, extension)
+    })
+  }
+
+  recordTypeResolverHistory(resolvers: { [k: string]: any }, previousResolvers: { [k: string]: any }, provenance: GQLRegistryProvenance, extension = false): void {
+    Object.keys(resolvers).forEach((typeName: string) => {
+      const resolver = resolvers[typeName]
+      const previous = previousResolvers[typeName]
+      if (previous === resolver) {
+        return
+      }
+      if (isPlainObject(resolver)) {
+        this.recordResolverHistory(typeName, resolver, isPlainObject(previous) ? previous : {}, provenance, extension)
+      } else {
+        this.recordHistory('resolver', typeName, previous === undefined ? 'added' : 'replaced', provenance, extension)
+      }
+    })
+  }
+
+  getPluginProvenance(plugin: GQLRegistryPlugin, hook: keyof GQLRegistryPlugin): GQLRegistryProvenance {
+    return {
+      source: `plugin:${plugin.name}`,
+      plugin: plugin.name,
+      hook,
+    }
+  }
+
+  /**
+   * Applies the conflict policy to a duplicate registration, returns true if the incoming element should replace the existing one
+   */
+
+  resolveConflict(kind: GQLRegistryConflictKind, coordinate: string, label: string, provenance: GQLRegistryProvenance, extension = false, detail?: string): boolean {
+    const policy = this.options.conflictPolicy
+    const existing = this.getLatestHistoryEntry(coordinate, kind)
+    const conflict: GQLRegistryConflict = {
+      kind,
+      coordinate,
+      extension,
+      policy,
+      resolution: 'replaced',
+      incoming: provenance,
+      existing,
+      ...(detail ? { detail } : {}),
+    }
+    this.conflicts.push(conflict)
+    const sources = (existing ? ` (registered by ${existing.source}, again by ${provenance.source})` : ` (again by ${provenance.source})`) + (detail ? `: ${detail}` : '')
+    switch (policy) {
+      case 'error':
+        conflict.resolution = 'rejected'
+        throw new GraphQLError(`${label} ${coordinate} already registered${sources}`, {
+          extensions: {
+            code: 'REGISTRY_CONFLICT',
+            conflict,
+          },
+        })
+      case 'keep-first':
+        conflict.resolution = 'kept'
+        return false
+      case 'last-wins':
+        return true
+      default:
+        console.warn(`WARNING: ${label} ${coordinate} already registered${sources}`)
+        return true
+    }
+  }
+
   /**
    * Registration
    */
 
-  checkForDuplicateDirectives(directiveDefinitions: DirectiveDefinitionNode[]) {
+  checkForDuplicateDirectives(directiveDefinitions: DirectiveDefinitionNode[], provenance: GQLRegistryProvenance): DirectiveDefinitionNode[] {
+    const accepted: DirectiveDefinitionNode[] = []
     for (let t = 0; t < directiveDefinitions.length; t++) {
       const newDirectiveDefinition = directiveDefinitions[t]
       if (newDirectiveDefinition.kind === Kind.DIRECTIVE_DEFINITION) {
         const exists = this.directiveDefinitions.findIndex((def) => def.name.value === newDirectiveDefinition.name.value)
-        if (exists !== -1) {
-          console.warn(`WARNING: Directive with name ${newDirectiveDefinition.name.value} already registered`)
+        if (exists !== -1 && !this.resolveConflict('directive', `@${newDirectiveDefinition.name.value}`, 'Directive', provenance)) {
+          continue
         }
       }
+      accepted.push(newDirectiveDefinition)
     }
+    return accepted
   }
 
-  checkForDuplicateTypes(typeDefinitions: TypeDefinitionNode[]): void {
+  checkForDuplicateTypes(typeDefinitions: TypeDefinitionNode[], provenance: GQLRegistryProvenance): TypeDefinitionNode[] {
+    const accepted: TypeDefinitionNode[] = []
     for (let t = 0; t < typeDefinitions.length; t++) {
       const newTypeDefinition: TypeDefinitionNode = typeDefinitions[t]
       if (isTypeDefinitionNode(newTypeDefinition)) {
         const exists = this.typeDefinitions.findIndex((def) => def.name.value === newTypeDefinition.name.value)
-        if (exists !== -1) {
-          console.warn(`WARNING: Type with name ${newTypeDefinition.name.value} already registered`)
+        if (exists !== -1 && !this.isMergeable(this.typeDefinitions[exists], newTypeDefinition) && !this.resolveConflict('type', newTypeDefinition.name.value, 'Type', provenance)) {
+          continue
         }
       }
+      accepted.push(newTypeDefinition)
     }
+    return accepted
   }
 
-  checkForDuplicateQueries(queryDefinitions: FieldDefinitionNode[]): void {
-    for (let t = 0; t < queryDefinitions.length; t++) {
-      const newQueryDefinition = queryDefinitions[t]
-      if (newQueryDefinition.kind === Kind.FIELD_DEFINITION) {
-        const exists = this.queryDefinitions.findIndex((def) => def.name.value === newQueryDefinition.name.value)
-        if (exists !== -1) {
-          console.warn(`WARNING: Query with name ${newQueryDefinition.name.value} already registered`)
+  checkForDuplicateExtensionTypes(typeDefinitions: (TypeExtensionNode | TypeDefinitionNode)[], provenance: GQLRegistryProvenance): (TypeExtensionNode | TypeDefinitionNode)[] {
+    const accepted: (TypeExtensionNode | TypeDefinitionNode)[] = []
+    for (let t = 0; t < typeDefinitions.length; t++) {
+      const newTypeDefinition = typeDefinitions[t]
+      if (isTypeExtensionNode(newTypeDefinition)) {
+        const exists = this.extensionTypeDefinitions.findIndex((def) => def.name.value === newTypeDefinition.name.value)
+        if (exists !== -1 && !this.isMergeable(this.extensionTypeDefinitions[exists], newTypeDefinition) && !this.resolveConflict('type', newTypeDefinition.name.value, 'Type extension', provenance, true)) {
+          continue
+        }
+      } else if (isTypeDefinitionNode(newTypeDefinition)) {
+        const exists = this.typeDefinitions.findIndex((def) => def.name.value === newTypeDefinition.name.value)
+        if (exists !== -1 && !this.isMergeable(this.typeDefinitions[exists], newTypeDefinition) && !this.resolveConflict('type', newTypeDefinition.name.value, 'Type', provenance)) {
+          continue
         }
       }
+      accepted.push(newTypeDefinition)
     }
+    return accepted
   }
 
-  checkForDuplicateMutations(mutationDefinitions: FieldDefinitionNode[]): void {
-    for (let t = 0; t < mutationDefinitions.length; t++) {
-      const newMutationDefiniton = mutationDefinitions[t]
-      if (newMutationDefiniton.kind === Kind.FIELD_DEFINITION) {
-        const exists = this.mutationDefinitions.findIndex((def) => def.name.value === newMutationDefiniton.name.value)
-        if (exists !== -1) {
-          console.warn(`WARNING: Mutation with name ${newMutationDefiniton.name.value} already registered`)
+  checkForDuplicateRootFields(rootTypeName: string, existingDefinitions: FieldDefinitionNode[], fieldDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance, extension = false): FieldDefinitionNode[] {
+    const accepted: FieldDefinitionNode[] = []
+    for (let t = 0; t < fieldDefinitions.length; t++) {
+      const newFieldDefinition = fieldDefinitions[t]
+      if (newFieldDefinition.kind === Kind.FIELD_DEFINITION) {
+        const exists = existingDefinitions.findIndex((def) => def.name.value === newFieldDefinition.name.value)
+        if (exists !== -1 && !this.resolveConflict('field', `${rootTypeName}.${newFieldDefinition.name.value}`, extension ? 'Field extension' : 'Field', provenance, extension)) {
+          continue
         }
       }
+      accepted.push(newFieldDefinition)
     }
+    return accepted
   }
 
-  checkForDuplicateSubscriptions(subscriptionDefinitions: FieldDefinitionNode[]): void {
-    for (let t = 0; t < subscriptionDefinitions.length; t++) {
-      const newSubscriptionDefiniton = subscriptionDefinitions[t]
-      if (newSubscriptionDefiniton.kind === Kind.FIELD_DEFINITION) {
-        const exists = this.subscriptionDefinitions.findIndex((def) => def.name.value === newSubscriptionDefiniton.name.value)
-        if (exists !== -1) {
-          console.warn(`WARNING: Subscription with name ${newSubscriptionDefiniton.name.value} already registered`)
+  checkForDuplicateQueries(queryDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): FieldDefinitionNode[] {
+    return this.checkForDuplicateRootFields('Query', this.queryDefinitions, queryDefinitions, provenance)
+  }
+
+  checkForDuplicateMutations(mutationDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): FieldDefinitionNode[] {
+    return this.checkForDuplicateRootFields('Mutation', this.mutationDefinitions, mutationDefinitions, provenance)
+  }
+
+  checkForDuplicateSubscriptions(subscriptionDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): FieldDefinitionNode[] {
+    return this.checkForDuplicateRootFields('Subscription', this.subscriptionDefinitions, subscriptionDefinitions, provenance)
+  }
+
+  checkForDuplicateExtensionQueries(extensionQueryDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): FieldDefinitionNode[] {
+    return this.checkForDuplicateRootFields('Query', this.extensionQueryDefinitions, extensionQueryDefinitions, provenance, true)
+  }
+
+  checkForDuplicateExtensionMutations(extensionMutationDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): FieldDefinitionNode[] {
+    return this.checkForDuplicateRootFields('Mutation', this.extensionMutationDefinitions, extensionMutationDefinitions, provenance, true)
+  }
+
+  checkForDuplicateExtensionSubscriptions(extensionSubscriptionDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): FieldDefinitionNode[] {
+    return this.checkForDuplicateRootFields('Subscription', this.extensionSubscriptionDefinitions, extensionSubscriptionDefinitions, provenance, true)
+  }
+
+  /**
+   * Merges a map of field resolvers (eg. Query resolvers) into an existing map applying the conflict policy per field
+   */
+
+  mergeIncomingResolvers(rootTypeName: string, resolvers: { [k: string]: any }, incomingResolvers: { [k: string]: any }, provenance: GQLRegistryProvenance, extension = false): { [k: string]: any } {
+    const merged = { ...resolvers }
+    Object.keys(incomingResolvers).forEach((name: string) => {
+      if (merged[name] !== undefined && merged[name] !== incomingResolvers[name]) {
+        if (!this.resolveConflict('resolver', `${rootTypeName}.${name}`, 'Resolver', provenance, extension)) {
+          return
+        }
+      }
+      merged[name] = incomingResolvers[name]
+    })
+    this.recordResolverHistory(rootTypeName, merged, resolvers, provenance, extension)
+    return merged
+  }
+
+  /**
+   * Merges a map of type resolvers into an existing map, plain resolver objects are merged field by field while scalars and other instances are treated as a single element
+   */
+
+  mergeIncomingTypeResolvers(resolvers: { [k: string]: any }, incomingResolvers: { [k: string]: any }, provenance: GQLRegistryProvenance, extension = false): { [k: string]: any } {
+    const merged = { ...resolvers }
+    Object.keys(incomingResolvers).forEach((typeName: string) => {
+      const existing = merged[typeName]
+      const incoming = incomingResolvers[typeName]
+      if (existing === undefined || existing === incoming) {
+        merged[typeName] = incoming
+        this.recordTypeResolverHistory({ [typeName]: incoming }, {}, provenance, extension)
+      } else if (isPlainObject(existing) && isPlainObject(incoming)) {
+        merged[typeName] = this.mergeIncomingResolvers(typeName, existing, incoming, provenance, extension)
+      } else if (this.resolveConflict('resolver', typeName, 'Resolver', provenance, extension)) {
+        merged[typeName] = incoming
+        this.recordHistory('resolver', typeName, 'replaced', provenance, extension)
+      }
+    })
+    return merged
+  }
+
+  /**
+   * Merges federation entity configs, keys are combined while a second reference resolver for the same type goes through the conflict policy
+   */
+
+  mergeIncomingEntities(entities: { [typeName: string]: GQLRegistryEntityConfig }, provenance: GQLRegistryProvenance): void {
+    Object.keys(entities).forEach((typeName: string) => {
+      const existing = this.entities[typeName]
+      const incoming = entities[typeName]
+      const coordinate = `${typeName}.__resolveReference`
+      if (!existing) {
+        this.entities[typeName] = { ...incoming }
+        if (incoming.resolveReference) {
+          this.recordHistory('resolver', coordinate, 'added', provenance)
+        }
+        return
+      }
+      const keys = getEntityKeys(existing)
+      getEntityKeys(incoming).forEach((key) => {
+        if (!keys.includes(key)) {
+          keys.push(key)
         }
+      })
+      let resolveReference = existing.resolveReference ?? incoming.resolveReference
+      if (existing.resolveReference && incoming.resolveReference && existing.resolveReference !== incoming.resolveReference) {
+        if (this.resolveConflict('resolver', coordinate, 'Resolver', provenance)) {
+          resolveReference = incoming.resolveReference
+          this.recordHistory('resolver', coordinate, 'replaced', provenance)
+        }
+      } else if (!existing.resolveReference && incoming.resolveReference) {
+        this.recordHistory('resolver', coordinate, 'added', provenance)
+      }
+      this.entities[typeName] = {
+        ...existing,
+        ...incoming,
+        keys,
+        resolveReference,
+      }
+    })
+  }
+
+  isMergeable(existing: TypeDefinitionNode | TypeExtensionNode, incoming: TypeDefinitionNode | TypeExtensionNode): boolean {
+    return this.options.typeMergeMode === 'merge' && canMergeTypes(existing, incoming)
+  }
+
+  /**
+   * Combines two declarations of the same type, fields that disagree on their type or arguments are passed through the conflict policy
+   */
+
+  mergeTypeDefinition<T extends TypeDefinitionNode | TypeExtensionNode>(existing: T, incoming: T, provenance: GQLRegistryProvenance, extension = false): T {
+    const typeName = existing.name.value
+    return {
+      ...existing,
+      directives: this.mergeDirectiveUsages(typeName, existing.directives, incoming.directives, provenance, extension),
+      ...('description' in existing || 'description' in incoming ? { description: mergeDescriptions('description' in existing ? existing.description : undefined, 'description' in incoming ? incoming.description : undefined) } : {}),
+      ...('fields' in incoming && incoming.fields ? { fields: this.mergeTypeMembers(typeName, getTypeFields(existing), incoming.fields, provenance, extension) } : {}),
+      ...('values' in incoming && incoming.values ? { values: this.mergeTypeMembers(typeName, getTypeFields(existing), incoming.values, provenance, extension) } : {}),
+      ...('interfaces' in incoming && incoming.interfaces ? { interfaces: mergeNamedTypes('interfaces' in existing ? existing.interfaces : undefined, incoming.interfaces) } : {}),
+      ...('types' in incoming && incoming.types ? { types: mergeNamedTypes('types' in existing ? existing.types : undefined, incoming.types) } : {}),
+    }
+  }
+
+  mergeTypeMembers(typeName: string, existingMembers: readonly TypeMemberNode[], incomingMembers: readonly TypeMemberNode[], provenance: GQLRegistryProvenance, extension = false): TypeMemberNode[] {
+    const merged = [...existingMembers]
+    for (let m = 0; m < incomingMembers.length; m++) {
+      const incoming = incomingMembers[m]
+      const coordinate = `${typeName}.${incoming.name.value}`
+      const exists = merged.findIndex((member) => member.name.value === incoming.name.value)
+      if (exists === -1) {
+        merged.push(incoming)
+        continue
+      }
+      const current = merged[exists]
+      const currentSignature = getMemberSignature(current)
+      const incomingSignature = getMemberSignature(incoming)
+      if (currentSignature === incomingSignature) {
+        merged[exists] = {
+          ...current,
+          description: mergeDescriptions(current.description, incoming.description),
+          directives: this.mergeDirectiveUsages(coordinate, current.directives, incoming.directives, provenance, extension),
+        } as TypeMemberNode
+      } else if (this.resolveConflict('field', coordinate, 'Field', provenance, extension, `declared as \`${currentSignature}\` and \`${incomingSignature}\``)) {
+        merged[exists] = incoming
       }
     }
+    return merged
   }
 
-  mergeIncomingDirectives(directiveDefinitions: DirectiveDefinitionNode[]): void {
+  mergeDirectiveUsages(coordinate: string, existingDirectives: readonly DirectiveNode[] = [], incomingDirectives: readonly DirectiveNode[] = [], provenance: GQLRegistryProvenance, extension = false): DirectiveNode[] {
+    const merged = [...existingDirectives]
+    for (let d = 0; d < incomingDirectives.length; d++) {
+      const incoming = incomingDirectives[d]
+      const printed = print(incoming)
+      if (merged.find((directive) => print(directive) === printed)) {
+        continue
+      }
+      const repeatable = this.directiveDefinitions.find((def) => def.name.value === incoming.name.value)?.repeatable
+      const exists = merged.findIndex((directive) => directive.name.value === incoming.name.value)
+      if (exists === -1 || repeatable) {
+        merged.push(incoming)
+      } else if (this.resolveConflict('directive', `${coordinate}@${incoming.name.value}`, 'Directive usage', provenance, extension, `declared as \`${print(merged[exists])}\` and \`${printed}\``)) {
+        merged[exists] = incoming
+      }
+    }
+    return merged
+  }
+
+  mergeIncomingDirectives(directiveDefinitions: DirectiveDefinitionNode[], provenance: GQLRegistryProvenance): void {
     for (let t = 0; t < directiveDefinitions.length; t++) {
       const newDirectiveDefinition = directiveDefinitions[t]
       if (newDirectiveDefinition.kind === Kind.DIRECTIVE_DEFINITION) {
@@ -229,270 +1014,1129 @@ export class GQLRegistry {
           this.directiveDefinitions.splice(exists, 1)
         }
         this.directiveDefinitions.push(newDirectiveDefinition)
+        this.recordHistory('directive', `@${newDirectiveDefinition.name.value}`, exists !== -1 ? 'replaced' : 'added', provenance)
       }
     }
   }
 
-  mergeIncomingTypes(typeDefinitions: TypeDefinitionNode[]): void {
+  mergeIncomingTypes(typeDefinitions: TypeDefinitionNode[], provenance: GQLRegistryProvenance, mode: GQLRegistryTypeMergeMode = 'replace'): void {
     for (let t = 0; t < typeDefinitions.length; t++) {
-      const newTypeDefinition: TypeDefinitionNode = typeDefinitions[t]
+      let newTypeDefinition: TypeDefinitionNode = typeDefinitions[t]
       if (isTypeDefinitionNode(newTypeDefinition)) {
         const exists = this.typeDefinitions.findIndex((def) => def.name.value === newTypeDefinition.name.value)
+        const previousFields = exists !== -1 ? getTypeFields(this.typeDefinitions[exists]) : []
+        let action: GQLRegistryHistoryEntry['action'] = exists !== -1 ? 'replaced' : 'added'
         if (exists !== -1) {
+          if (mode === 'merge' && canMergeTypes(this.typeDefinitions[exists], newTypeDefinition)) {
+            newTypeDefinition = this.mergeTypeDefinition(this.typeDefinitions[exists], newTypeDefinition, provenance)
+            action = 'merged'
+          }
           this.typeDefinitions.splice(exists, 1)
         }
         this.typeDefinitions.push(newTypeDefinition)
+        this.recordHistory('type', newTypeDefinition.name.value, action, provenance)
+        this.recordFieldHistory(newTypeDefinition.name.value, getTypeFields(newTypeDefinition), previousFields, provenance)
       }
     }
   }
 
-  mergeIncomingExtensionTypes(typeDefinitions: (TypeExtensionNode | TypeDefinitionNode)[]): void {
+  mergeIncomingExtensionTypes(typeDefinitions: (TypeExtensionNode | TypeDefinitionNode)[], provenance: GQLRegistryProvenance, mode: GQLRegistryTypeMergeMode = 'replace'): void {
     for (let t = 0; t < typeDefinitions.length; t++) {
-      const newTypeDefinition = typeDefinitions[t]
+      let newTypeDefinition = typeDefinitions[t]
       if (isTypeExtensionNode(newTypeDefinition)) {
         const exists = this.extensionTypeDefinitions.findIndex((def) => def.name.value === newTypeDefinition.name.value)
+        const previousFields = exists !== -1 ? getTypeFields(this.extensionTypeDefinitions[exists]) : []
         if (exists !== -1) {
+          if (mode === 'merge' && canMergeTypes(this.extensionTypeDefinitions[exists], newTypeDefinition)) {
+            newTypeDefinition = this.mergeTypeDefinition(this.extensionTypeDefinitions[exists], newTypeDefinition as TypeExtensionNode, provenance, true)
+          }
           this.extensionTypeDefinitions.splice(exists, 1)
         }
         this.extensionTypeDefinitions.push(newTypeDefinition as TypeExtensionNode)
+        this.recordHistory('type', newTypeDefinition.name.value, 'extended', provenance, true)
+        this.recordFieldHistory(newTypeDefinition.name.value, getTypeFields(newTypeDefinition as TypeExtensionNode), previousFields, provenance, true)
       } else if (isTypeDefinitionNode(newTypeDefinition)) {
-        const exists = this.typeDefinitions.findIndex((def) => def.name.value === newTypeDefinition.name.value)
+        this.mergeIncomingTypes([newTypeDefinition as TypeDefinitionNode], provenance, mode)
+      }
+    }
+  }
+
+  mergeIncomingRootFields(rootTypeName: string, existingDefinitions: FieldDefinitionNode[], fieldDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance, extension = false): void {
+    for (let t = 0; t < fieldDefinitions.length; t++) {
+      const newFieldDefinition = fieldDefinitions[t]
+      if (newFieldDefinition.kind === Kind.FIELD_DEFINITION) {
+        const exists = existingDefinitions.findIndex((def) => def.name.value === newFieldDefinition.name.value)
         if (exists !== -1) {
-          this.typeDefinitions.splice(exists, 1)
+          existingDefinitions.splice(exists, 1)
         }
-        this.typeDefinitions.push(newTypeDefinition as TypeDefinitionNode)
+        existingDefinitions.push(newFieldDefinition)
+        this.recordHistory('field', `${rootTypeName}.${newFieldDefinition.name.value}`, exists !== -1 ? 'replaced' : 'added', provenance, extension)
       }
     }
   }
 
-  mergeIncomingQueries(queryDefinitions: FieldDefinitionNode[]): void {
-    for (let t = 0; t < queryDefinitions.length; t++) {
-      const newQueryDefinition = queryDefinitions[t]
-      if (newQueryDefinition.kind === Kind.FIELD_DEFINITION) {
-        const exists = this.queryDefinitions.findIndex((def) => def.name.value === newQueryDefinition.name.value)
-        if (exists !== -1) {
-          this.queryDefinitions.splice(exists, 1)
+  mergeIncomingQueries(queryDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): void {
+    this.mergeIncomingRootFields('Query', this.queryDefinitions, queryDefinitions, provenance)
+  }
+
+  mergeIncomingExtensionQueries(extensionQueryDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): void {
+    this.mergeIncomingRootFields('Query', this.extensionQueryDefinitions, extensionQueryDefinitions, provenance, true)
+  }
+
+  mergeIncomingMutations(mutationDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): void {
+    this.mergeIncomingRootFields('Mutation', this.mutationDefinitions, mutationDefinitions, provenance)
+  }
+
+  mergeIncomingExtensionMutations(extensionMutationDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): void {
+    this.mergeIncomingRootFields('Mutation', this.extensionMutationDefinitions, extensionMutationDefinitions, provenance, true)
+  }
+
+  mergeIncomingSubscriptions(subscriptionDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): void {
+    this.mergeIncomingRootFields('Subscription', this.subscriptionDefinitions, subscriptionDefinitions, provenance)
+  }
+
+  mergeIncomingExtensionSubscriptions(extensionSubscriptionDefinitions: FieldDefinitionNode[], provenance: GQLRegistryProvenance): void {
+    this.mergeIncomingRootFields('Subscription', this.extensionSubscriptionDefinitions, extensionSubscriptionDefinitions, provenance, true)
+  }
+
+  /**
+   * Registers a middleware wrapping every resolver matched by a `Type.field` pattern such as `Query.*`, `Mutation.create*` or `Book.author`. Middleware is composed in registration order around local, extension, plugin generated and stitched remote resolvers
+   */
+
+  registerMiddleware<TContext = GQLContext>(pattern: string, middleware: GQLResolverMiddleware<TContext>): void {
+    createFieldMatcher(pattern)
+    this.invalidateForRegistration()
+    this.middlewares.push({ pattern, middleware, provenance: { source: getCallerSource() } })
+  }
+
+  /**
+   * Registers a named policy for `@policy(name:)`, the policy is called with the context, parent, args and info before the field resolves and denies access by returning false
+   */
+
+  registerPolicy<TContext = GQLContext>(name: string, policy: GQLPolicy<TContext>): void {
+    this.invalidateForRegistration()
+    this.policies[name] = policy
+  }
+
+  /**
+   * Registers a data source created for every request by createContext and exposed on the context under its name, a data source instance passed instead of a factory is shared by all requests
+   */
+
+  registerDataSource<T extends GQLDataSource, TRequest = unknown>(args: RegisterDataSourceArgs<T, TRequest>): void {
+    const { name, dataSource, dependsOn = [] } = args
+    let factory: GQLDataSourceFactory<T, TRequest> | undefined = args.factory
+    if (!factory) {
+      if (!dataSource) {
+        throw new GraphQLError(`Data source ${name} needs either a factory or a dataSource`, {
+          extensions: {
+            code: 'INVALID_DATA_SOURCE',
+            dataSource: name,
+          },
+        })
+      }
+      const shared = dataSource
+      factory = () => shared
+    }
+    this.invalidateForRegistration()
+    this.dataSources[name] = { name, factory, dependsOn, shared: !args.factory, provenance: { source: getCallerSource() } }
+  }
+
+  /**
+   * Registers a function adding part of the per request context, contributors listed in dependsOn run first and their additions are visible to it
+   */
+
+  registerContextContributor<TRequest = unknown>(name: string, contribute: GQLContextContributorFn<TRequest>, { dependsOn = [] }: GQLContextContributorOptions = {}): void {
+    const coordinate = `context:${name}`
+    const provenance: GQLRegistryProvenance = { source: getCallerSource() }
+    const exists = this.contextContributors[name]
+    if (exists && exists.contribute !== contribute && !this.resolveConflict('contextContributor', coordinate, 'Context contributor', provenance)) {
+      return
+    }
+    this.contextContributors[name] = { name, contribute, dependsOn, provenance }
+    this.recordHistory('contextContributor', coordinate, exists ? 'replaced' : 'added', provenance)
+  }
+
+  /**
+   * Builds the context of a request by running every registered context contributor, independent contributors run concurrently
+   */
+
+  async createContext<T extends object = GQLContext>(requestInfo: unknown, initialContext: Partial<T> = {}): Promise<T> {
+    const contributors = { ...this.contextContributors }
+    const created: GQLDataSource[] = []
+    Object.keys(this.dataSources).forEach((name: string) => {
+      if (contributors[name]) {
+        throw new GraphQLError(`${name} is registered both as a data source and as a context contributor`, {
+          extensions: {
+            code: 'INVALID_CONTEXT_CONTRIBUTOR',
+            contributor: name,
+          },
+        })
+      }
+      contributors[name] = createDataSourceContributor(this.dataSources[name], (dataSource) => created.push(dataSource))
+    })
+    try {
+      const context = await runContextContributors<T>(orderContextContributors(contributors), requestInfo, initialContext)
+      this.contextDataSources.set(context, created)
+      return context
+    } catch (err) {
+      await disposeDataSources(created).catch(() => undefined)
+      throw err
+    }
+  }
+
+  /**
+   * Disposes the data sources createContext created for a context, call it once the response has been sent
+   */
+
+  async disposeContext(context: object): Promise<void> {
+    const dataSources = this.contextDataSources.get(context) ?? []
+    this.contextDataSources.delete(context)
+    await disposeDataSources(dataSources)
+  }
+
+  registerRemoteSchema(args: RegisterRemoteSchemaArgs): void {
+    const { name, url, headers, forwardHeaders, timeout, schemaLoader, subscriptionUrl, connectionParams, pollInterval, onFailure, cacheFile, naming, namespace, merge, batch, schema, transforms } = args
+    if (this.remoteSchemas[name]) {
+      return
+    }
+    let requestExecutor = args.executor
+    if (!requestExecutor) {
+      if (!url) {
+        throw new GraphQLError(`Remote schema ${name} needs either an executor or a url`, {
+          extensions: {
+            code: 'INVALID_REMOTE_SCHEMA',
+            remote: name,
+          },
+        })
+      }
+      requestExecutor = createHttpExecutor({ url, headers, forwardHeaders, timeout })
+    }
+    const subscriptionTransport = !args.subscriptionExecutor && subscriptionUrl ? createWebSocketExecutor({ url: subscriptionUrl, connectionParams }) : undefined
+    const subscriptionExecutor = args.subscriptionExecutor ?? subscriptionTransport?.executor
+    const executor = subscriptionExecutor ? routeSubscriptions(requestExecutor, subscriptionExecutor) : requestExecutor
+    const asyncSchema = args.asyncSchema ?? (schema ? undefined : () => loadRemoteSchema(executor, schemaLoader, name))
+    const batching = batch ? createBatchedExecutor(executor, batch === true ? {} : batch) : undefined
+    this.invalidateForRegistration()
+    this.remoteSchemas[name] = { name, url, pollInterval, onFailure, cacheFile, naming, namespace, merge, batch, batching, asyncSchema, schema, executor, subscriptionTransport, transforms, registration: args }
+  }
+
+  registerDirectives(args: RegisterDirectiveArgs): void {
+    const { directiveResolvers = {}, source } = args
+    this.invalidateForRegistration()
+    const caller = getCallerLocation()
+    const directiveDefinition = loadDocument(args.directiveDefinition, caller)
+    const provenance: GQLRegistryProvenance = { source: source ?? getCallerSource(caller) }
+    this.registerAtomically(() => {
+      if (directiveDefinition?.definitions) {
+        this.mergeIncomingDirectives(this.checkForDuplicateDirectives(directiveDefinition.definitions as DirectiveDefinitionNode[], provenance), provenance)
+      }
+      if (Object.keys(directiveResolvers).length) {
+        Object.keys(directiveResolvers).forEach((directiveName: string) => {
+          const exists: ((schema: GraphQLSchema) => GraphQLSchema) | undefined = this.directiveResolvers[directiveName]
+          if (exists && exists !== directiveResolvers[directiveName] && !this.resolveConflict('directiveResolver', `@${directiveName}`, 'Directive resolver', provenance)) {
+            return
+          }
+          this.directiveResolvers[directiveName] = directiveResolvers[directiveName]
+          this.recordHistory('directiveResolver', `@${directiveName}`, exists !== undefined ? 'replaced' : 'added', provenance)
+        })
+      }
+    })
+  }
+
+  registerType<R extends GQLRegistryResolverMaps = UntypedResolverMaps>(args: RegisterTypeArgs<R>): void {
+    const {
+      typeResolvers,
+      queryResolvers,
+      mutationResolvers,
+      subscriptionResolvers,
+      entities,
+      merge,
+      source,
+    } = args as RegisterTypeArgs
+    this.invalidateForRegistration()
+    const caller = getCallerLocation()
+    const provenance: GQLRegistryProvenance = { source: source ?? getCallerSource(caller) }
+    const typeDefinitions = loadDocument(args.typeDefinitions, caller)
+    const queryDefinitions = loadDocument(args.queryDefinitions, caller)
+    const mutationDefinitions = loadDocument(args.mutationDefinitions, caller)
+    const subscriptionDefinitions = loadDocument(args.subscriptionDefinitions, caller)
+
+    this.registerAtomically(() => {
+      if (typeDefinitions?.definitions) {
+        this.mergeIncomingTypes(this.checkForDuplicateTypes(typeDefinitions?.definitions as TypeDefinitionNode[], provenance), provenance, this.options.typeMergeMode)
+      }
+
+      const queryDocumentDefinitions = (queryDefinitions?.definitions?.find((def) => {
+        return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Query'
+      }) as ObjectTypeDefinitionNode)?.fields ?? []
+      this.mergeIncomingQueries(this.checkForDuplicateQueries(queryDocumentDefinitions as Mutable<FieldDefinitionNode[]>, provenance), provenance)
+
+      const mutationDocumentDefinitions = (mutationDefinitions?.definitions?.find((def) => {
+        return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Mutation'
+      }) as ObjectTypeDefinitionNode)?.fields ?? []
+      this.mergeIncomingMutations(this.checkForDuplicateMutations(mutationDocumentDefinitions as Mutable<FieldDefinitionNode[]>, provenance), provenance)
+
+      const subscriptionDocumentDefinitions = (subscriptionDefinitions?.definitions?.find((def) => {
+        return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Subscription'
+      }) as ObjectTypeDefinitionNode)?.fields ?? []
+      this.mergeIncomingSubscriptions(this.checkForDuplicateSubscriptions(subscriptionDocumentDefinitions as Mutable<FieldDefinitionNode[]>, provenance), provenance)
+
+      if (typeResolvers) {
+        this.typeResolvers = this.mergeIncomingTypeResolvers(this.typeResolvers, typeResolvers, provenance)
+      }
+      if (queryResolvers) {
+        this.queryResolvers = this.mergeIncomingResolvers('Query', this.queryResolvers, queryResolvers, provenance)
+      }
+      if (mutationResolvers) {
+        this.mutationResolvers = this.mergeIncomingResolvers('Mutation', this.mutationResolvers, mutationResolvers, provenance)
+      }
+      if (subscriptionResolvers) {
+        this.subscriptionResolvers = this.mergeIncomingResolvers('Subscription', this.subscriptionResolvers, subscriptionResolvers, provenance)
+      }
+      if (entities) {
+        this.mergeIncomingEntities(entities, provenance)
+      }
+      if (merge) {
+        this.mergedTypes = { ...this.mergedTypes, ...merge }
+      }
+    })
+  }
+
+  registerTypeExtension<R extends GQLRegistryResolverMaps = UntypedResolverMaps>(args: RegisterTypeExtensionArgs<R>): void {
+    const {
+      extensionTypeResolvers,
+      extensionQueryResolvers,
+      extensionMutationResolvers,
+      extensionSubscriptionResolvers,
+      source,
+    } = args as RegisterTypeExtensionArgs
+    this.invalidateForRegistration()
+    const caller = getCallerLocation()
+    const provenance: GQLRegistryProvenance = { source: source ?? getCallerSource(caller) }
+    const extensionTypeDefinitions = loadDocument(args.extensionTypeDefinitions, caller)
+    const extensionQueryDefinitions = loadDocument(args.extensionQueryDefinitions, caller)
+    const extensionMutationDefinitions = loadDocument(args.extensionMutationDefinitions, caller)
+    const extensionSubscriptionDefinitions = loadDocument(args.extensionSubscriptionDefinitions, caller)
+
+    this.registerAtomically(() => {
+      if (extensionTypeDefinitions?.definitions) {
+        this.mergeIncomingExtensionTypes(this.checkForDuplicateExtensionTypes(extensionTypeDefinitions?.definitions as TypeExtensionNode[], provenance), provenance, this.options.typeMergeMode)
+      }
+
+      const queryDocumentDefinitions = (extensionQueryDefinitions?.definitions?.find((def) => {
+        return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Query'
+      }) as ObjectTypeDefinitionNode)?.fields ?? []
+      this.mergeIncomingExtensionQueries(this.checkForDuplicateExtensionQueries(queryDocumentDefinitions as Mutable<FieldDefinitionNode[]>, provenance), provenance)
+
+      const mutationDocumentDefinitions = (extensionMutationDefinitions?.definitions?.find((def) => {
+        return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Mutation'
+      }) as ObjectTypeDefinitionNode)?.fields ?? []
+      this.mergeIncomingExtensionMutations(this.checkForDuplicateExtensionMutations(mutationDocumentDefinitions as Mutable<FieldDefinitionNode[]>, provenance), provenance)
+
+      const subscriptionDocumentDefinitions = (extensionSubscriptionDefinitions?.definitions?.find((def) => {
+        return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Subscription'
+      }) as ObjectTypeDefinitionNode)?.fields ?? []
+      this.mergeIncomingExtensionSubscriptions(this.checkForDuplicateExtensionSubscriptions(subscriptionDocumentDefinitions as Mutable<FieldDefinitionNode[]>, provenance), provenance)
+
+      if (extensionQueryResolvers) {
+        this.extensionQueryResolvers = this.mergeIncomingResolvers('Query', this.extensionQueryResolvers, extensionQueryResolvers, provenance, true)
+      }
+      if (extensionMutationResolvers) {
+        this.extensionMutationResolvers = this.mergeIncomingResolvers('Mutation', this.extensionMutationResolvers, extensionMutationResolvers, provenance, true)
+      }
+      if (extensionTypeResolvers) {
+        this.extensionTypeResolvers = this.mergeIncomingTypeResolvers(this.extensionTypeResolvers, extensionTypeResolvers, provenance, true)
+      }
+      if (extensionSubscriptionResolvers) {
+        this.extensionSubscriptionResolvers = this.mergeIncomingResolvers('Subscription', this.extensionSubscriptionResolvers, extensionSubscriptionResolvers, provenance, true)
+      }
+    })
+  }
+
+  /**
+   * Registers a .graphql/.gql file and ties the resolvers (or a module exporting them) to it by type name
+   */
+
+  registerSchemaFile(filePath: string, resolvers: { [k: string]: any } | string = {}): void {
+    const caller = getCallerLocation()
+    const schemaFile = resolveFromCaller(filePath, caller)
+    const document = readSchemaFile(schemaFile)
+    let resolverMap: { [k: string]: any } = {}
+    if (typeof resolvers === 'string') {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const resolverModule = require(resolveFromCaller(resolvers, caller))
+      resolverMap = resolverModule.default ?? resolverModule.resolvers ?? resolverModule
+    } else {
+      resolverMap = resolvers
+    }
+
+    const directiveDefinitions: DefinitionNode[] = []
+    const typeDefinitions: DefinitionNode[] = []
+    const extensionTypeDefinitions: DefinitionNode[] = []
+    const rootFields: { [k: string]: FieldDefinitionNode[] } = { Query: [], Mutation: [], Subscription: [] }
+    const extensionRootFields: { [k: string]: FieldDefinitionNode[] } = { Query: [], Mutation: [], Subscription: [] }
+    for (let d = 0; d < document.definitions.length; d++) {
+      const definition = document.definitions[d]
+      if (definition.kind === Kind.DIRECTIVE_DEFINITION) {
+        directiveDefinitions.push(definition)
+      } else if ((definition.kind === Kind.OBJECT_TYPE_DEFINITION || definition.kind === Kind.OBJECT_TYPE_EXTENSION) && rootTypeNames.includes(definition.name.value)) {
+        const target = definition.kind === Kind.OBJECT_TYPE_DEFINITION ? rootFields : extensionRootFields
+        target[definition.name.value].push(...(definition.fields ?? []))
+      } else if (isTypeDefinitionNode(definition)) {
+        typeDefinitions.push(definition)
+      } else if (isTypeExtensionNode(definition)) {
+        extensionTypeDefinitions.push(definition)
+      }
+    }
+
+    const toDocument = (definitions: DefinitionNode[]): DocumentNode => ({ kind: Kind.DOCUMENT, definitions })
+    const toRootDocument = (name: string, fields: FieldDefinitionNode[]): DocumentNode => toDocument([{
+      kind: Kind.OBJECT_TYPE_DEFINITION,
+      name: { kind: Kind.NAME, value: name },
+      fields,
+    } as ObjectTypeDefinitionNode])
+    const isExtendedType = (name: string): boolean => !!extensionTypeDefinitions.find((def) => (def as ObjectTypeExtensionNode).name.value === name)
+    const pickResolvers = (rootTypeName: string, extension: boolean): { [k: string]: any } => {
+      const picked: { [k: string]: any } = {}
+      Object.keys(resolverMap[rootTypeName] ?? {}).forEach((fieldName: string) => {
+        const isExtensionField = !!extensionRootFields[rootTypeName].find((field) => field.name.value === fieldName)
+        if (isExtensionField === extension) {
+          picked[fieldName] = resolverMap[rootTypeName][fieldName]
+        }
+      })
+      return picked
+    }
+    const typeResolvers: { [k: string]: any } = {}
+    const extensionTypeResolvers: { [k: string]: any } = {}
+    Object.keys(resolverMap).filter((name) => !rootTypeNames.includes(name)).forEach((typeName: string) => {
+      if (isExtendedType(typeName)) {
+        extensionTypeResolvers[typeName] = resolverMap[typeName]
+      } else {
+        typeResolvers[typeName] = resolverMap[typeName]
+      }
+    })
+
+    if (directiveDefinitions.length) {
+      this.registerDirectives({ source: schemaFile, directiveDefinition: toDocument(directiveDefinitions) })
+    }
+    this.registerType({
+      source: schemaFile,
+      typeDefinitions: toDocument(typeDefinitions),
+      queryDefinitions: toRootDocument('Query', rootFields.Query),
+      mutationDefinitions: toRootDocument('Mutation', rootFields.Mutation),
+      subscriptionDefinitions: toRootDocument('Subscription', rootFields.Subscription),
+      typeResolvers,
+      queryResolvers: pickResolvers('Query', false),
+      mutationResolvers: pickResolvers('Mutation', false),
+      subscriptionResolvers: pickResolvers('Subscription', false),
+    })
+    if (extensionTypeDefinitions.length || rootTypeNames.find((name) => extensionRootFields[name].length)) {
+      this.registerTypeExtension({
+        source: schemaFile,
+        extensionTypeDefinitions: toDocument(extensionTypeDefinitions),
+        extensionQueryDefinitions: toRootDocument('Query', extensionRootFields.Query),
+        extensionMutationDefinitions: toRootDocument('Mutation', extensionRootFields.Mutation),
+        extensionSubscriptionDefinitions: toRootDocument('Subscription', extensionRootFields.Subscription),
+        extensionTypeResolvers,
+        extensionQueryResolvers: pickResolvers('Query', true),
+        extensionMutationResolvers: pickResolvers('Mutation', true),
+        extensionSubscriptionResolvers: pickResolvers('Subscription', true),
+      })
+    }
+  }
+
+  registerInternalValues({ internalValues, source }: { internalValues: { [s: string]: any }, source?: string }): void {
+    this.invalidateForRegistration()
+    this.recordTypeResolverHistory(internalValues, this.internalValues, { source: source ?? getCallerSource() })
+    this.internalValues = { ...this.internalValues, ...internalValues }
+  }
+
+  registerPreStartFunction(preStartfunction: PreStartFunction): void {
+    this.invalidateForRegistration()
+    this.preStartFunctions.push(preStartfunction)
+    this.hasExecutedPreStart = false
+  }
+
+  registerPlugin(plugin: GQLRegistryPlugin): void {
+    const isAdded = this.plugins.find((registeredPlugin: GQLRegistryPlugin) => registeredPlugin.name === plugin.name)
+    if (!isAdded) {
+      this.invalidateForRegistration()
+      plugin.registry = this
+      this.plugins.push(plugin)
+    }
+  }
+
+  /**
+   * Registers any plugin instances or plugin classes exported by a module
+   */
+
+  registerPluginExports(exports: { [k: string]: any }): void {
+    const values = exports instanceof GQLRegistryPlugin || typeof exports === 'function' ? [exports] : Object.values(exports ?? {})
+    for (let v = 0; v < values.length; v++) {
+      const value = values[v]
+      if (value instanceof GQLRegistryPlugin) {
+        this.registerPlugin(value)
+      } else if (typeof value === 'function' && value.prototype instanceof GQLRegistryPlugin) {
+        const PluginClass = value
+        this.registerPlugin(new PluginClass())
+      }
+    }
+  }
+
+  /**
+   * Copies the types, root fields, resolvers, directives, data sources and remote schemas of another registry into this one, after running its pre start functions and plugins. Nothing is copied when any of them collides with an existing registration
+   */
+
+  async mount(child: GQLRegistry, options: GQLRegistryMountOptions = {}): Promise<void> {
+    const { typePrefix = '', rootFieldPrefix = '' } = options
+    const provenance: GQLRegistryProvenance = { source: options.source ?? getCallerSource(getCallerLocation()) }
+    if (child === this) {
+      throw new GraphQLError('A registry cannot be mounted into itself', {
+        extensions: {
+          code: 'MOUNT_CONFLICT',
+        },
+      })
+    }
+    await child.preStart()
+    await child.processPlugins()
+    this.invalidateForRegistration()
+
+    const rename = createTypeRenamer(child.typeDefinitions.map((def) => def.name.value), typePrefix)
+    const renameCoordinate = (coordinate: string) => {
+      const [typeName, fieldName] = coordinate.split('.')
+      if (fieldName === undefined || !rootTypeNames.includes(typeName)) {
+        return [rename(typeName), ...(fieldName === undefined ? [] : [fieldName])].join('.')
+      }
+      return `${typeName}.${rootFieldPrefix}${fieldName}`
+    }
+    const renamePattern = (pattern: string) => {
+      const [typePattern, fieldPattern] = pattern.split('.')
+      return rootTypeNames.includes(typePattern) ? `${typePattern}.${rootFieldPrefix}${fieldPattern}` : `${rename(typePattern)}.${fieldPattern}`
+    }
+
+    const typeDefinitions = child.typeDefinitions.map((def) => renameTypesInNode(def, rename))
+    const extensionTypeDefinitions = child.extensionTypeDefinitions.map((def) => renameTypesInNode(def, rename))
+    const rootDefinitions: { [rootTypeName: string]: { existing: FieldDefinitionNode[], incoming: FieldDefinitionNode[], extension: boolean }[] } = {
+      Query: [
+        { existing: this.queryDefinitions, incoming: renameRootFields(child.queryDefinitions, rename, rootFieldPrefix), extension: false },
+        { existing: this.extensionQueryDefinitions, incoming: renameRootFields(child.extensionQueryDefinitions, rename, rootFieldPrefix), extension: true },
+      ],
+      Mutation: [
+        { existing: this.mutationDefinitions, incoming: renameRootFields(child.mutationDefinitions, rename, rootFieldPrefix), extension: false },
+        { existing: this.extensionMutationDefinitions, incoming: renameRootFields(child.extensionMutationDefinitions, rename, rootFieldPrefix), extension: true },
+      ],
+      Subscription: [
+        { existing: this.subscriptionDefinitions, incoming: renameRootFields(child.subscriptionDefinitions, rename, rootFieldPrefix), extension: false },
+        { existing: this.extensionSubscriptionDefinitions, incoming: renameRootFields(child.extensionSubscriptionDefinitions, rename, rootFieldPrefix), extension: true },
+      ],
+    }
+
+    const typeResolvers = renameTypeResolvers(child.typeResolvers, rename)
+    const extensionTypeResolvers = renameTypeResolvers(child.extensionTypeResolvers, rename)
+    const internalValues = renameTypeResolvers(child.internalValues, rename)
+    const entities = renameTypeResolvers(child.entities, rename)
+    const rootResolvers: { [rootTypeName: string]: { existing: { [k: string]: any }, incoming: { [k: string]: any } }[] } = {
+      Query: [
+        { existing: this.queryResolvers, incoming: prefixKeys(child.queryResolvers, rootFieldPrefix) },
+        { existing: this.extensionQueryResolvers, incoming: prefixKeys(child.extensionQueryResolvers, rootFieldPrefix) },
+      ],
+      Mutation: [
+        { existing: this.mutationResolvers, incoming: prefixKeys(child.mutationResolvers, rootFieldPrefix) },
+        { existing: this.extensionMutationResolvers, incoming: prefixKeys(child.extensionMutationResolvers, rootFieldPrefix) },
+      ],
+      Subscription: [
+        { existing: this.subscriptionResolvers, incoming: prefixKeys(child.subscriptionResolvers, rootFieldPrefix) },
+        { existing: this.extensionSubscriptionResolvers, incoming: prefixKeys(child.extensionSubscriptionResolvers, rootFieldPrefix) },
+      ],
+    }
+
+    const collisions: GQLRegistryMountCollision[] = []
+    const collidingResolvers = (typeName: string, existing: { [k: string]: any }, incoming: { [k: string]: any }) => Object.keys(incoming)
+      .filter((name) => existing[name] !== undefined && existing[name] !== incoming[name])
+      .map((name) => `${typeName}.${name}`)
+    const collidingTypeResolvers = (existing: { [k: string]: any }, incoming: { [k: string]: any }) => {
+      const coordinates: string[] = []
+      Object.keys(incoming).forEach((typeName: string) => {
+        if (existing[typeName] === undefined || existing[typeName] === incoming[typeName]) {
+          return
+        }
+        if (isPlainObject(existing[typeName]) && isPlainObject(incoming[typeName])) {
+          coordinates.push(...collidingResolvers(typeName, existing[typeName], incoming[typeName]))
+        } else {
+          coordinates.push(typeName)
+        }
+      })
+      return coordinates
+    }
+    const sharedTypes: string[] = []
+    typeDefinitions.forEach((def) => {
+      const existing = this.typeDefinitions.find((registered) => registered.name.value === def.name.value)
+      if (!existing) {
+        return
+      }
+      if (print(existing) === print(def)) {
+        sharedTypes.push(def.name.value)
+      } else {
+        collisions.push({ kind: 'type', coordinate: def.name.value, detail: 'declared differently by both registries' })
+      }
+    })
+    Object.keys(rootDefinitions).forEach((rootTypeName: string) => {
+      rootDefinitions[rootTypeName].forEach(({ existing, incoming, extension }) => {
+        incoming.forEach((field) => {
+          if (existing.find((registered) => registered.name.value === field.name.value)) {
+            collisions.push({ kind: 'field', coordinate: `${rootTypeName}.${field.name.value}`, detail: `${extension ? 'extension ' : ''}root field registered by both registries` })
+          }
+        })
+      })
+    })
+    const sharedExtensionTypes: string[] = []
+    extensionTypeDefinitions.forEach((def) => {
+      const existing = this.extensionTypeDefinitions.find((registered) => registered.name.value === def.name.value)
+      if (!existing) {
+        return
+      }
+      if (print(existing) === print(def)) {
+        sharedExtensionTypes.push(def.name.value)
+      } else if (!this.isMergeable(existing, def)) {
+        collisions.push({ kind: 'type', coordinate: def.name.value, detail: 'extended differently by both registries' })
+      }
+    })
+    child.directiveDefinitions.forEach((def) => {
+      const existing = this.directiveDefinitions.find((registered) => registered.name.value === def.name.value)
+      if (existing && print(existing) !== print(def)) {
+        collisions.push({ kind: 'directive', coordinate: `@${def.name.value}`, detail: 'declared differently by both registries' })
+      }
+    })
+    Object.keys(rootResolvers).forEach((rootTypeName: string) => {
+      rootResolvers[rootTypeName].forEach(({ existing, incoming }) => {
+        collidingResolvers(rootTypeName, existing, incoming).filter((coordinate) => !collisions.some((collision) => collision.coordinate === coordinate)).forEach((coordinate) => {
+          collisions.push({ kind: 'resolver', coordinate, detail: 'resolver registered by both registries' })
+        })
+      })
+    })
+    const typeResolverCoordinates = [...collidingTypeResolvers(this.typeResolvers, typeResolvers), ...collidingTypeResolvers(this.extensionTypeResolvers, extensionTypeResolvers)]
+    typeResolverCoordinates.forEach((coordinate) => {
+      collisions.push({ kind: 'resolver', coordinate, detail: 'resolver registered by both registries' })
+    })
+    collidingTypeResolvers(this.internalValues, internalValues).forEach((coordinate) => {
+      collisions.push({ kind: 'internalValue', coordinate, detail: 'internal value registered by both registries' })
+    })
+    Object.keys(entities).forEach((typeName: string) => {
+      const existing = this.entities[typeName]?.resolveReference
+      if (existing && entities[typeName].resolveReference && existing !== entities[typeName].resolveReference) {
+        collisions.push({ kind: 'resolver', coordinate: `${typeName}.__resolveReference`, detail: 'reference resolver registered by both registries' })
+      }
+    })
+    Object.keys(child.directiveResolvers).forEach((directiveName: string) => {
+      if (this.directiveResolvers[directiveName] && this.directiveResolvers[directiveName] !== child.directiveResolvers[directiveName]) {
+        collisions.push({ kind: 'directiveResolver', coordinate: `@${directiveName}`, detail: 'directive resolver registered by both registries' })
+      }
+    })
+    Object.keys(child.dataSources).forEach((name: string) => {
+      if (this.dataSources[name] && this.dataSources[name] !== child.dataSources[name]) {
+        collisions.push({ kind: 'dataSource', coordinate: name, detail: 'data source registered by both registries' })
+      }
+    })
+    Object.keys(child.policies).forEach((name: string) => {
+      if (this.policies[name] && this.policies[name] !== child.policies[name]) {
+        collisions.push({ kind: 'policy', coordinate: name, detail: 'policy registered by both registries' })
+      }
+    })
+    Object.keys(child.contextContributors).forEach((name: string) => {
+      if (this.contextContributors[name] && this.contextContributors[name].contribute !== child.contextContributors[name].contribute) {
+        collisions.push({ kind: 'contextContributor', coordinate: name, detail: 'context contributor registered by both registries' })
+      }
+    })
+    Object.keys(child.remoteSchemas).forEach((name: string) => {
+      if (this.remoteSchemas[name]) {
+        collisions.push({ kind: 'remoteSchema', coordinate: name, detail: 'remote schema registered by both registries' })
+      }
+    })
+    if (collisions.length) {
+      throw new GraphQLError(`Cannot mount registry (mounted by ${provenance.source}):\n${collisions.map((collision) => `  - ${collision.coordinate}: ${collision.detail}`).join('\n')}`, {
+        extensions: {
+          code: 'MOUNT_CONFLICT',
+          collisions,
+        },
+      })
+    }
+
+    this.registerAtomically(() => {
+      Object.keys(child.history).forEach((coordinate: string) => {
+        const renamedCoordinate = coordinate.startsWith('@') ? coordinate : renameCoordinate(coordinate)
+        this.history[renamedCoordinate] = [
+          ...(this.history[renamedCoordinate] ?? []),
+          ...child.history[coordinate].map((entry) => ({ ...entry, coordinate: renamedCoordinate })),
+        ]
+      })
+
+      this.mergeIncomingDirectives(child.directiveDefinitions.filter((def) => !this.directiveDefinitions.find((registered) => registered.name.value === def.name.value)), provenance)
+      this.mergeIncomingTypes(typeDefinitions.filter((def) => !sharedTypes.includes(def.name.value)), provenance)
+      this.mergeIncomingExtensionTypes(extensionTypeDefinitions.filter((def) => !sharedExtensionTypes.includes(def.name.value)), provenance, this.options.typeMergeMode)
+      this.mergeIncomingQueries(rootDefinitions.Query[0].incoming, provenance)
+      this.mergeIncomingExtensionQueries(rootDefinitions.Query[1].incoming, provenance)
+      this.mergeIncomingMutations(rootDefinitions.Mutation[0].incoming, provenance)
+      this.mergeIncomingExtensionMutations(rootDefinitions.Mutation[1].incoming, provenance)
+      this.mergeIncomingSubscriptions(rootDefinitions.Subscription[0].incoming, provenance)
+      this.mergeIncomingExtensionSubscriptions(rootDefinitions.Subscription[1].incoming, provenance)
+
+      this.typeResolvers = this.mergeIncomingTypeResolvers(this.typeResolvers, typeResolvers, provenance)
+      this.queryResolvers = this.mergeIncomingResolvers('Query', this.queryResolvers, rootResolvers.Query[0].incoming, provenance)
+      this.mutationResolvers = this.mergeIncomingResolvers('Mutation', this.mutationResolvers, rootResolvers.Mutation[0].incoming, provenance)
+      this.subscriptionResolvers = this.mergeIncomingResolvers('Subscription', this.subscriptionResolvers, rootResolvers.Subscription[0].incoming, provenance)
+      this.extensionTypeResolvers = this.mergeIncomingTypeResolvers(this.extensionTypeResolvers, extensionTypeResolvers, provenance, true)
+      this.extensionQueryResolvers = this.mergeIncomingResolvers('Query', this.extensionQueryResolvers, rootResolvers.Query[1].incoming, provenance, true)
+      this.extensionMutationResolvers = this.mergeIncomingResolvers('Mutation', this.extensionMutationResolvers, rootResolvers.Mutation[1].incoming, provenance, true)
+      this.extensionSubscriptionResolvers = this.mergeIncomingResolvers('Subscription', this.extensionSubscriptionResolvers, rootResolvers.Subscription[1].incoming, provenance, true)
+      this.internalValues = this.mergeIncomingTypeResolvers(this.internalValues, internalValues, provenance)
+      this.directiveResolvers = { ...this.directiveResolvers, ...child.directiveResolvers }
+
+      this.mergeIncomingEntities(entities, provenance)
+      const mergedTypes = renameTypeResolvers(child.mergedTypes, rename)
+      Object.keys(mergedTypes).forEach((typeName: string) => {
+        const { fieldName } = mergedTypes[typeName]
+        this.mergedTypes[typeName] = { ...mergedTypes[typeName], fieldName: fieldName ? `${rootFieldPrefix}${fieldName}` : undefined }
+      })
+    })
+    this.dataSources = { ...this.dataSources, ...child.dataSources }
+    this.contextContributors = { ...this.contextContributors, ...child.contextContributors }
+    this.policies = { ...this.policies, ...child.policies }
+    this.middlewares = [...this.middlewares, ...child.middlewares.map((registered) => ({ ...registered, pattern: renamePattern(registered.pattern) }))]
+    Object.keys(child.remoteSchemas).forEach((name: string) => this.registerRemoteSchema(child.remoteSchemas[name].registration))
+  }
+
+  /**
+   * Imports a single module found by discoverModules and reports what it registered
+   */
+
+  loadModule(moduleFile: GQLRegistryModuleFile): GQLRegistryLoadedModule {
+    const historyBefore = this.getHistorySnapshot()
+    const pluginsBefore = this.plugins.map((plugin) => plugin.name)
+    try {
+      if (moduleFile.kind === 'sdl') {
+        this.registerSchemaFile(moduleFile.file)
+      } else {
+        // modules register through GQLRegistry.shared(), which returns this registry while the module is imported
+        const sharedInstance = instance
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        instance = this
+        try {
+          delete require.cache[require.resolve(moduleFile.file)]
+          // eslint-disable-next-line @typescript-eslint/no-var-requires
+          const exports = require(moduleFile.file)
+          if (moduleFile.kind === 'plugin') {
+            this.registerPluginExports(exports)
+          }
+        } finally {
+          instance = sharedInstance
+        }
+      }
+    } catch (err) {
+      throw new GraphQLError(`Failed to load module ${moduleFile.file}: ${(err as Error).message}`, {
+        originalError: err as Error,
+        extensions: {
+          code: 'MODULE_LOAD_ERROR',
+          file: moduleFile.file,
+        },
+      })
+    }
+    return {
+      ...moduleFile,
+      registered: this.getHistorySince(historyBefore),
+      plugins: this.plugins.map((plugin) => plugin.name).filter((name) => !pluginsBefore.includes(name)),
+    }
+  }
+
+  /**
+   * Unregistration
+   */
+
+  getRegistrationState(): RegistrationState {
+    const history: { [coordinate: string]: GQLRegistryHistoryEntry[] } = {}
+    Object.keys(this.history).forEach((coordinate: string) => {
+      history[coordinate] = [...this.history[coordinate]]
+    })
+    return {
+      directiveDefinitions: [...this.directiveDefinitions],
+      directiveResolvers: { ...this.directiveResolvers },
+      typeDefinitions: [...this.typeDefinitions],
+      queryDefinitions: [...this.queryDefinitions],
+      mutationDefinitions: [...this.mutationDefinitions],
+      subscriptionDefinitions: [...this.subscriptionDefinitions],
+      typeResolvers: { ...this.typeResolvers },
+      queryResolvers: { ...this.queryResolvers },
+      mutationResolvers: { ...this.mutationResolvers },
+      subscriptionResolvers: { ...this.subscriptionResolvers },
+      extensionTypeDefinitions: [...this.extensionTypeDefinitions],
+      extensionQueryDefinitions: [...this.extensionQueryDefinitions],
+      extensionMutationDefinitions: [...this.extensionMutationDefinitions],
+      extensionSubscriptionDefinitions: [...this.extensionSubscriptionDefinitions],
+      extensionTypeResolvers: { ...this.extensionTypeResolvers },
+      extensionQueryResolvers: { ...this.extensionQueryResolvers },
+      extensionMutationResolvers: { ...this.extensionMutationResolvers },
+      extensionSubscriptionResolvers: { ...this.extensionSubscriptionResolvers },
+      entities: { ...this.entities },
+      mergedTypes: { ...this.mergedTypes },
+      internalValues: { ...this.internalValues },
+      conflicts: [...this.conflicts],
+      history,
+    }
+  }
+
+  restoreRegistrationState(state: RegistrationState): void {
+    Object.assign(this, state)
+  }
+
+  /**
+   * Runs a registration and restores the registrations made before it when it throws, so a registration rejected by the conflict policy leaves nothing behind. The rejected conflict is kept in the conflict report
+   */
+
+  private registerAtomically(register: () => void): void {
+    const state = this.getRegistrationState()
+    try {
+      register()
+    } catch (err) {
+      const { conflicts } = this
+      this.restoreRegistrationState(state)
+      this.conflicts = conflicts
+      throw err
+    }
+  }
+
+  /**
+   * Drops the cached executable schema and everything the plugins generated, the next build runs the plugins again over the current registrations
+   */
+
+  invalidate(): void {
+    if (this.pluginBaseState) {
+      this.restoreRegistrationState(this.pluginBaseState)
+      this.pluginBaseState = null
+      this.plugins.forEach((plu) => plu.clear?.())
+    }
+    this.hasProcessedPlugins = false
+    this.executableSchema = null
+  }
+
+  private invalidateForRegistration(): void {
+    if (!this.isProcessingPlugins && (this.hasProcessedPlugins || this.executableSchema)) {
+      this.invalidate()
+    }
+  }
+
+  /**
+   * Invalidates the registry and builds a new executable schema, listeners of schemaChanged receive the new schema
+   */
+
+  async rebuild(): Promise<GraphQLSchema> {
+    this.invalidate()
+    return this.getExecutableSchema()
+  }
+
+  on<E extends keyof GQLRegistryEvents>(event: E, listener: GQLRegistryEvents[E]): this {
+    this.events.on(event, listener)
+    return this
+  }
+
+  once<E extends keyof GQLRegistryEvents>(event: E, listener: GQLRegistryEvents[E]): this {
+    this.events.once(event, listener)
+    return this
+  }
+
+  off<E extends keyof GQLRegistryEvents>(event: E, listener: GQLRegistryEvents[E]): this {
+    this.events.off(event, listener)
+    return this
+  }
+
+  /**
+   * Removes the definitions and resolvers last registered from a file, anything registered from the file but replaced by another source since is kept
+   */
+
+  unregisterSource(file: string): string[] {
+    this.invalidate()
+    const removed: string[] = []
+    const provenance: GQLRegistryProvenance = { source: file }
+    const kinds: GQLRegistryConflictKind[] = ['type', 'field', 'resolver', 'directive', 'directiveResolver', 'contextContributor']
+    Object.keys(this.history).forEach((coordinate: string) => {
+      kinds.forEach((kind) => {
+        const latest = this.getLatestHistoryEntry(coordinate, kind)
+        if (!latest || latest.action === 'removed' || (latest.source !== file && !latest.source.startsWith(`${file}:`))) {
+          return
+        }
+        if (this.removeRegistration(latest)) {
+          this.recordHistory(kind, coordinate, 'removed', provenance, latest.extension)
+          removed.push(coordinate)
+        }
+      })
+    })
+    return removed
+  }
+
+  private removeRegistration({ kind, coordinate, extension }: GQLRegistryHistoryEntry): boolean {
+    const [typeName, fieldName] = coordinate.split('.')
+    const isRoot = rootTypeNames.includes(typeName)
+    const removeFrom = <T>(list: T[], predicate: (item: T) => boolean): T[] | null => {
+      const filtered = list.filter((item) => !predicate(item))
+      return filtered.length === list.length ? null : filtered
+    }
+    switch (kind) {
+      case 'type': {
+        if (extension) {
+          const definitions = removeFrom(this.extensionTypeDefinitions, (def) => def.name.value === typeName)
+          if (definitions) {
+            this.extensionTypeDefinitions = definitions
+          }
+          return !!definitions
+        }
+        const definitions = removeFrom(this.typeDefinitions, (def) => def.name.value === typeName)
+        if (definitions) {
+          this.typeDefinitions = definitions
+        }
+        return !!definitions
+      }
+      case 'field': {
+        if (!isRoot || fieldName === undefined) {
+          return false
+        }
+        const key = rootRegistrationKeys[typeName as GQLRegistryRootTypeName].definitions[extension ? 1 : 0]
+        const definitions = removeFrom(this[key], (def) => def.name.value === fieldName)
+        if (definitions) {
+          this[key] = definitions
         }
-        this.queryDefinitions.push(newQueryDefinition)
+        return !!definitions
       }
-    }
-  }
-
-  mergeIncomingExtensionQueries(extensionQueryDefinitions: FieldDefinitionNode[]): void {
-    for (let t = 0; t < extensionQueryDefinitions.length; t++) {
-      const newExtensionQueryDefinition = extensionQueryDefinitions[t]
-      if (newExtensionQueryDefinition.kind === Kind.FIELD_DEFINITION) {
-        const exists = this.extensionQueryDefinitions.findIndex((def) => def.name.value === newExtensionQueryDefinition.name.value)
-        if (exists !== -1) {
-          this.extensionQueryDefinitions.splice(exists, 1)
+      case 'resolver': {
+        if (fieldName === undefined) {
+          const maps = [extension ? this.extensionTypeResolvers : this.typeResolvers, this.internalValues]
+          const map = maps.find((resolvers) => resolvers[typeName] !== undefined)
+          if (map) {
+            delete map[typeName]
+          }
+          return !!map
+        }
+        if (fieldName === '__resolveReference' && this.entities[typeName]?.resolveReference) {
+          this.entities[typeName] = { ...this.entities[typeName], resolveReference: undefined }
+          return true
+        }
+        if (isRoot) {
+          const key = rootRegistrationKeys[typeName as GQLRegistryRootTypeName].resolvers[extension ? 1 : 0]
+          if (this[key][fieldName] === undefined) {
+            return false
+          }
+          const resolvers = { ...this[key] }
+          delete resolvers[fieldName]
+          this[key] = resolvers
+          return true
         }
-        this.extensionQueryDefinitions.push(newExtensionQueryDefinition)
+        const map = extension ? this.extensionTypeResolvers : this.typeResolvers
+        if (!isPlainObject(map[typeName]) || map[typeName][fieldName] === undefined) {
+          return false
+        }
+        const resolvers = { ...map[typeName] }
+        delete resolvers[fieldName]
+        map[typeName] = resolvers
+        return true
       }
-    }
-  }
-
-  mergeIncomingMutations(mutationDefinitions: FieldDefinitionNode[]): void {
-    for (let t = 0; t < mutationDefinitions.length; t++) {
-      const newMutationDefiniton = mutationDefinitions[t]
-      if (newMutationDefiniton.kind === Kind.FIELD_DEFINITION) {
-        const exists = this.mutationDefinitions.findIndex((def) => def.name.value === newMutationDefiniton.name.value)
-        if (exists !== -1) {
-          this.mutationDefinitions.splice(exists, 1)
+      case 'directive': {
+        const definitions = removeFrom(this.directiveDefinitions, (def) => `@${def.name.value}` === coordinate)
+        if (definitions) {
+          this.directiveDefinitions = definitions
         }
-        this.mutationDefinitions.push(newMutationDefiniton)
+        return !!definitions
       }
-    }
-  }
-
-  mergeIncomingExtensionMutations(extensionMutationDefinitions: FieldDefinitionNode[]): void {
-    for (let t = 0; t < extensionMutationDefinitions.length; t++) {
-      const newExtensionMutationDefiniton = extensionMutationDefinitions[t]
-      if (newExtensionMutationDefiniton.kind === Kind.FIELD_DEFINITION) {
-        const exists = this.extensionMutationDefinitions.findIndex((def) => def.name.value === newExtensionMutationDefiniton.name.value)
-        if (exists !== -1) {
-          this.extensionMutationDefinitions.splice(exists, 1)
+      case 'directiveResolver': {
+        const directiveName = coordinate.slice(1)
+        if (!this.directiveResolvers[directiveName]) {
+          return false
         }
-        this.extensionMutationDefinitions.push(newExtensionMutationDefiniton)
+        delete this.directiveResolvers[directiveName]
+        return true
       }
-    }
-  }
-
-  mergeIncomingSubscriptions(subscriptionDefinitions: FieldDefinitionNode[]): void {
-    for (let t = 0; t < subscriptionDefinitions.length; t++) {
-      const newSubscriptionDefiniton = subscriptionDefinitions[t]
-      if (newSubscriptionDefiniton.kind === Kind.FIELD_DEFINITION) {
-        const exists = this.subscriptionDefinitions.findIndex((def) => def.name.value === newSubscriptionDefiniton.name.value)
-        if (exists !== -1) {
-          this.subscriptionDefinitions.splice(exists, 1)
+      case 'contextContributor': {
+        const name = coordinate.slice('context:'.length)
+        if (!this.contextContributors[name]) {
+          return false
         }
-        this.subscriptionDefinitions.push(newSubscriptionDefiniton)
+        delete this.contextContributors[name]
+        return true
       }
+      default:
+        return false
     }
   }
 
-  mergeIncomingExtensionSubscriptions(extensionSubscriptionDefinitions: FieldDefinitionNode[]): void {
-    for (let t = 0; t < extensionSubscriptionDefinitions.length; t++) {
-      const newExtensionSubscriptionDefiniton = extensionSubscriptionDefinitions[t]
-      if (newExtensionSubscriptionDefiniton.kind === Kind.FIELD_DEFINITION) {
-        const exists = this.extensionSubscriptionDefinitions.findIndex((def) => def.name.value === newExtensionSubscriptionDefiniton.name.value)
-        if (exists !== -1) {
-          this.extensionSubscriptionDefinitions.splice(exists, 1)
-        }
-        this.extensionSubscriptionDefinitions.push(newExtensionSubscriptionDefiniton)
-      }
+  unregisterType(typeName: string): boolean {
+    this.invalidate()
+    const provenance: GQLRegistryProvenance = { source: getCallerSource() }
+    const typeCount = this.typeDefinitions.length
+    const extensionCount = this.extensionTypeDefinitions.length
+    this.typeDefinitions = this.typeDefinitions.filter((def) => def.name.value !== typeName)
+    this.extensionTypeDefinitions = this.extensionTypeDefinitions.filter((def) => def.name.value !== typeName)
+    const removed = typeCount !== this.typeDefinitions.length || extensionCount !== this.extensionTypeDefinitions.length
+    const resolverMaps = [this.typeResolvers, this.extensionTypeResolvers, this.internalValues, this.entities]
+    const hadResolvers = !!resolverMaps.find((resolvers) => resolvers[typeName] !== undefined)
+    resolverMaps.forEach((resolvers) => {
+      delete resolvers[typeName]
+    })
+    delete this.mergedTypes[typeName]
+    if (removed) {
+      this.recordHistory('type', typeName, 'removed', provenance)
+    }
+    if (hadResolvers) {
+      this.recordHistory('resolver', typeName, 'removed', provenance)
     }
+    return removed || hadResolvers
   }
 
-  registerDataSource(args: { name: string, dataSource: RESTDataSource }): void {
-    const { name, dataSource } = args
-    this.dataSources[name] = dataSource
+  unregisterTypeExtension(typeName: string): boolean {
+    this.invalidate()
+    const count = this.extensionTypeDefinitions.length
+    const hadResolvers = this.extensionTypeResolvers[typeName] !== undefined
+    this.extensionTypeDefinitions = this.extensionTypeDefinitions.filter((def) => def.name.value !== typeName)
+    delete this.extensionTypeResolvers[typeName]
+    const removed = count !== this.extensionTypeDefinitions.length
+    if (removed || hadResolvers) {
+      this.recordHistory('type', typeName, 'removed', { source: getCallerSource() }, true)
+    }
+    return removed || hadResolvers
   }
 
-  registerRemoteSchema(args: RegisterRemoteSchemaArgs): void {
-    const { name, asyncSchema, schema, executor, transforms } = args
-    if (!this.remoteSchemas[name]) {
-      this.remoteSchemas[name] = { name, asyncSchema, schema, executor, transforms }
+  unregisterRootField(rootTypeName: GQLRegistryRootTypeName, fieldName: string): boolean {
+    this.invalidate()
+    const provenance: GQLRegistryProvenance = { source: getCallerSource() }
+    let removed = false
+    for (let k = 0; k < 2; k++) {
+      const definitionKey = rootRegistrationKeys[rootTypeName].definitions[k]
+      const resolverKey = rootRegistrationKeys[rootTypeName].resolvers[k]
+      const definitions = this[definitionKey].filter((def) => def.name.value !== fieldName)
+      if (definitions.length !== this[definitionKey].length) {
+        this[definitionKey] = definitions
+        this.recordHistory('field', `${rootTypeName}.${fieldName}`, 'removed', provenance, k === 1)
+        removed = true
+      }
+      if (this[resolverKey][fieldName] !== undefined) {
+        const resolvers = { ...this[resolverKey] }
+        delete resolvers[fieldName]
+        this[resolverKey] = resolvers
+        this.recordHistory('resolver', `${rootTypeName}.${fieldName}`, 'removed', provenance, k === 1)
+        removed = true
+      }
     }
+    return removed
   }
 
-  registerDirectives({ directiveDefinition, directiveResolvers = {} }: RegisterDirectiveArgs): void {
-    if (directiveDefinition?.definitions) {
-      this.checkForDuplicateDirectives(directiveDefinition.definitions as DirectiveDefinitionNode[])
-      this.mergeIncomingDirectives(directiveDefinition.definitions as DirectiveDefinitionNode[])
-    }
-    if (Object.keys(directiveResolvers).length) {
-      Object.keys(directiveResolvers).forEach((directiveName: string) => {
-        this.directiveResolvers[directiveName] = directiveResolvers[directiveName]
+  unregisterResolver(typeName: string, fieldName: string): boolean {
+    this.invalidate()
+    const provenance: GQLRegistryProvenance = { source: getCallerSource() }
+    let removed = false
+    if (rootTypeNames.includes(typeName)) {
+      rootRegistrationKeys[typeName as GQLRegistryRootTypeName].resolvers.forEach((resolverKey, k) => {
+        if (this[resolverKey][fieldName] !== undefined) {
+          const resolvers = { ...this[resolverKey] }
+          delete resolvers[fieldName]
+          this[resolverKey] = resolvers
+          this.recordHistory('resolver', `${typeName}.${fieldName}`, 'removed', provenance, k === 1)
+          removed = true
+        }
       })
-    }
+      return removed
+    }
+    const resolverMaps = [this.typeResolvers, this.extensionTypeResolvers]
+    resolverMaps.forEach((resolverMap, r) => {
+      if (isPlainObject(resolverMap[typeName]) && resolverMap[typeName][fieldName] !== undefined) {
+        const resolvers = { ...resolverMap[typeName] }
+        delete resolvers[fieldName]
+        resolverMap[typeName] = resolvers
+        this.recordHistory('resolver', `${typeName}.${fieldName}`, 'removed', provenance, r === 1)
+        removed = true
+      }
+    })
+    return removed
   }
 
-  registerType(args: RegisterTypeArgs): void {
-    const {
-      typeDefinitions,
-      queryDefinitions,
-      mutationDefinitions,
-      subscriptionDefinitions,
-      typeResolvers,
-      queryResolvers,
-      mutationResolvers,
-      subscriptionResolvers,
-    } = args
-
-    if (typeDefinitions?.definitions) {
-      this.checkForDuplicateTypes(typeDefinitions?.definitions as TypeDefinitionNode[])
-      this.mergeIncomingTypes(typeDefinitions?.definitions as TypeDefinitionNode[])
-    }
-
-    const queryDocumentDefinitions = (queryDefinitions?.definitions?.find((def) => {
-      return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Query'
-    }) as ObjectTypeDefinitionNode)?.fields ?? []
-    this.checkForDuplicateQueries(queryDocumentDefinitions as Mutable<FieldDefinitionNode[]>)
-    this.mergeIncomingQueries(queryDocumentDefinitions as Mutable<FieldDefinitionNode[]>)
-
-    const mutationDocumentDefinitions = (mutationDefinitions?.definitions?.find((def) => {
-      return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Mutation'
-    }) as ObjectTypeDefinitionNode)?.fields ?? []
-    this.checkForDuplicateMutations(mutationDocumentDefinitions as Mutable<FieldDefinitionNode[]>)
-    this.mergeIncomingMutations(mutationDocumentDefinitions as Mutable<FieldDefinitionNode[]>)
-
-    const subscriptionDocumentDefinitions = (subscriptionDefinitions?.definitions?.find((def) => {
-      return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Subscription'
-    }) as ObjectTypeDefinitionNode)?.fields ?? []
-    this.checkForDuplicateSubscriptions(subscriptionDocumentDefinitions as Mutable<FieldDefinitionNode[]>)
-    this.mergeIncomingSubscriptions(subscriptionDocumentDefinitions as Mutable<FieldDefinitionNode[]>)
-
-    if (typeResolvers) {
-      Object.keys(typeResolvers).forEach((name: string) => {
-        this.typeResolvers[name] = typeResolvers[name]
-      })
-    }
-    if (queryResolvers) {
-      Object.keys(queryResolvers).forEach((name: string) => {
-        this.queryResolvers[name] = queryResolvers[name]
-      })
-    }
-    if (mutationResolvers) {
-      Object.keys(mutationResolvers).forEach((name: string) => {
-        this.mutationResolvers[name] = mutationResolvers[name]
-      })
+  unregisterDirective(directiveName: string): boolean {
+    this.invalidate()
+    const count = this.directiveDefinitions.length
+    const hadResolver = this.directiveResolvers[directiveName] !== undefined
+    this.directiveDefinitions = this.directiveDefinitions.filter((def) => def.name.value !== directiveName)
+    delete this.directiveResolvers[directiveName]
+    const provenance: GQLRegistryProvenance = { source: getCallerSource() }
+    if (count !== this.directiveDefinitions.length) {
+      this.recordHistory('directive', `@${directiveName}`, 'removed', provenance)
     }
-    if (subscriptionResolvers) {
-      Object.keys(subscriptionResolvers).forEach((name: string) => {
-        this.subscriptionResolvers[name] = subscriptionResolvers[name]
-      })
+    if (hadResolver) {
+      this.recordHistory('directiveResolver', `@${directiveName}`, 'removed', provenance)
     }
-
+    return count !== this.directiveDefinitions.length || hadResolver
   }
 
-  registerTypeExtension(args: RegisterTypeExtensionArgs): void {
-    const {
-      extensionTypeDefinitions,
-      extensionQueryDefinitions,
-      extensionMutationDefinitions,
-      extensionSubscriptionDefinitions,
-      extensionTypeResolvers,
-      extensionQueryResolvers,
-      extensionMutationResolvers,
-      extensionSubscriptionResolvers,
-    } = args
-
-    if (extensionTypeDefinitions?.definitions) {
-      this.mergeIncomingExtensionTypes(extensionTypeDefinitions?.definitions as TypeExtensionNode[])
+  unregisterPlugin(name: string): boolean {
+    const plugin = this.plugins.find((plu) => plu.name === name)
+    if (!plugin) {
+      return false
     }
+    this.invalidate()
+    this.plugins = this.plugins.filter((plu) => plu !== plugin)
+    plugin.clear?.()
+    return true
+  }
 
-    const queryDocumentDefinitions = (extensionQueryDefinitions?.definitions?.find((def) => {
-      return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Query'
-    }) as ObjectTypeDefinitionNode)?.fields ?? []
-    this.mergeIncomingExtensionQueries(queryDocumentDefinitions as Mutable<FieldDefinitionNode[]>)
-
-    const mutationDocumentDefinitions = (extensionMutationDefinitions?.definitions?.find((def) => {
-      return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Mutation'
-    }) as ObjectTypeDefinitionNode)?.fields ?? []
-    this.mergeIncomingExtensionMutations(mutationDocumentDefinitions as Mutable<FieldDefinitionNode[]>)
-
-    const subscriptionDocumentDefinitions = (extensionSubscriptionDefinitions?.definitions?.find((def) => {
-      return def.kind === Kind.OBJECT_TYPE_DEFINITION && def.name.value === 'Subscription'
-    }) as ObjectTypeDefinitionNode)?.fields ?? []
-    this.mergeIncomingExtensionSubscriptions(subscriptionDocumentDefinitions as Mutable<FieldDefinitionNode[]>)
+  unregisterRemoteSchema(name: string): boolean {
+    if (!this.remoteSchemas[name]) {
+      return false
+    }
+    this.invalidate()
+    this.stopPolling(name)
+    this.remoteSchemas[name].subscriptionTransport?.dispose()
+    delete this.remoteSchemas[name]
+    delete this.remoteSchemaHealth[name]
+    return true
+  }
 
-    if (extensionQueryResolvers) {
-      Object.keys(extensionQueryResolvers).forEach((extensionName: string) => {
-        this.extensionQueryResolvers[extensionName] = extensionQueryResolvers[extensionName]
-      })
-    }
-    if (extensionMutationResolvers) {
-      Object.keys(extensionMutationResolvers).forEach((extensionName: string) => {
-        this.extensionMutationResolvers[extensionName] = extensionMutationResolvers[extensionName]
-      })
-    }
-    if (extensionTypeResolvers) {
-      Object.keys(extensionTypeResolvers).forEach((extensionName: string) => {
-        this.extensionTypeResolvers[extensionName] = extensionTypeResolvers[extensionName]
-      })
-    }
-    if (extensionSubscriptionResolvers) {
-      Object.keys(extensionSubscriptionResolvers).forEach((extensionName: string) => {
-        this.extensionSubscriptionResolvers[extensionName] = extensionSubscriptionResolvers[extensionName]
-      })
+  unregisterDataSource(name: string): boolean {
+    if (!this.dataSources[name]) {
+      return false
     }
+    this.invalidate()
+    delete this.dataSources[name]
+    return true
+  }
 
+  unregisterMiddleware(middleware: GQLResolverMiddleware<any>): boolean {
+    const count = this.middlewares.length
+    this.middlewares = this.middlewares.filter((registered) => registered.middleware !== middleware)
+    if (count === this.middlewares.length) {
+      return false
+    }
+    this.invalidate()
+    return true
   }
 
-  registerInternalValues({ internalValues }: { internalValues: { [s: string]: any } }): void {
-    this.internalValues = { ...this.internalValues, ...internalValues }
+  unregisterPolicy(name: string): boolean {
+    if (!this.policies[name]) {
+      return false
+    }
+    this.invalidate()
+    delete this.policies[name]
+    return true
   }
 
-  registerPreStartFunction(preStartfunction: PreStartFunction): void {
-    this.preStartFunctions.push(preStartfunction)
+  unregisterContextContributor(name: string): boolean {
+    if (!this.contextContributors[name]) {
+      return false
+    }
+    delete this.contextContributors[name]
+    this.recordHistory('contextContributor', `context:${name}`, 'removed', { source: getCallerSource() })
+    return true
   }
 
-  registerPlugin(plugin: GQLRegistryPlugin): void {
-    const isAdded = this.plugins.find((registeredPlugin: GQLRegistryPlugin) => registeredPlugin.name === plugin.name)
-    if (!isAdded) {
-      plugin.registry = this
-      this.plugins.push(plugin)
+  unregisterPreStartFunction(preStartFunction: PreStartFunction): boolean {
+    const count = this.preStartFunctions.length
+    this.preStartFunctions = this.preStartFunctions.filter((fn) => fn !== preStartFunction)
+    if (count === this.preStartFunctions.length) {
+      return false
     }
+    this.invalidate()
+    return true
   }
 
   /**
@@ -504,6 +2148,7 @@ export class GQLRegistry {
     const definitions: Mutable<DefinitionNode[]> = [
       ...this.typeDefinitions,
       ...this.directiveDefinitions,
+      ...this.getAuthDirectiveDefinitions(),
     ]
 
     if (this.queryDefinitions.length) {
@@ -560,6 +2205,7 @@ export class GQLRegistry {
     const definitions: Mutable<DefinitionNode[]> = [
       ...this.extensionTypeDefinitions,
       ...this.directiveDefinitions,
+      ...this.getAuthDirectiveDefinitions(),
     ]
 
     if (this.extensionQueryDefinitions.length) {
@@ -612,6 +2258,28 @@ export class GQLRegistry {
     return documentNode
   }
 
+  /**
+   * Definitions of @auth and @policy, only added once a registered type or field uses them and they were not registered as custom directives. `requires` takes values of the Role enum when one is registered and strings otherwise
+   */
+
+  private getAuthDirectiveDefinitions(): DirectiveDefinitionNode[] {
+    const nodes: ASTNode[] = [
+      ...this.typeDefinitions,
+      ...this.queryDefinitions,
+      ...this.mutationDefinitions,
+      ...this.subscriptionDefinitions,
+      ...this.extensionTypeDefinitions,
+      ...this.extensionQueryDefinitions,
+      ...this.extensionMutationDefinitions,
+      ...this.extensionSubscriptionDefinitions,
+    ]
+    if (!usesAuthDirectives(nodes)) {
+      return []
+    }
+    const roleType = this.typeDefinitions.some((def) => def.kind === Kind.ENUM_TYPE_DEFINITION && def.name.value === 'Role') ? 'Role' : 'String'
+    return createAuthDirectiveDefinitions(roleType).filter((def) => !this.directiveDefinitions.find((registered) => registered.name.value === def.name.value))
+  }
+
   /**
    * Get Resolvers
    */
@@ -677,11 +2345,62 @@ export class GQLRegistry {
     return definitions
   }
 
+  /**
+   * Validation
+   */
+
+  getDiagnostics(remoteSchemas: GraphQLSchema[], remoteSchemasPending = false): GQLRegistryDiagnostic[] {
+    const findings = validateResolvers({
+      definitions: this.getDefinitionsDocument(),
+      extensions: this.getExtensionDefinitionsDocument(),
+      remoteSchemas,
+      remoteSchemasPending,
+      resolvers: this.getResolvers(),
+      extensionResolvers: this.getExtensionResolvers(),
+      policies: Object.keys(this.policies),
+    })
+    return findings.map(({ provenanceKind, ...finding }) => {
+      const memberCoordinate = Object.keys(this.history).find((coordinate) => coordinate.startsWith(`${finding.coordinate}.`))
+      return {
+        ...finding,
+        provenance: this.getLatestHistoryEntry(finding.coordinate, provenanceKind) ?? (memberCoordinate ? this.getLatestHistoryEntry(memberCoordinate, provenanceKind) : null),
+      }
+    })
+  }
+
+  /**
+   * Checks the registered resolvers against the registered definitions, extension resolvers are only checked against remote schemas that have already been loaded
+   */
+
+  async validate(): Promise<GQLRegistryDiagnostic[]> {
+    await this.preStart()
+    await this.processPlugins()
+    const names = Object.keys(this.remoteSchemas)
+    const remoteSchemas = names.map((name) => this.remoteSchemas[name].executable).filter((schema): schema is GraphQLSchema => !!schema)
+    return this.getDiagnostics(remoteSchemas, remoteSchemas.length < names.length)
+  }
+
+  reportDiagnostics(diagnostics: GQLRegistryDiagnostic[]): void {
+    const describe = (diagnostic: GQLRegistryDiagnostic) => `${diagnostic.message}${diagnostic.provenance ? ` (registered by ${diagnostic.provenance.source})` : ''}`
+    const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error')
+    diagnostics.filter((diagnostic) => diagnostic.severity === 'warning').forEach((diagnostic) => {
+      console.warn(`WARNING: ${describe(diagnostic)}`)
+    })
+    if (errors.length) {
+      throw new GraphQLError(`Schema validation failed:\n${errors.map((diagnostic) => `  - ${describe(diagnostic)}`).join('\n')}`, {
+        extensions: {
+          code: 'SCHEMA_VALIDATION_ERROR',
+          diagnostics,
+        },
+      })
+    }
+  }
+
   getExecutor(name: string): AsyncExecutor | null {
     return this.remoteSchemas?.[name]?.executor ?? null
   }
 
-  getRemoteSchema(name: string): RegisterRemoteSchemaArgs | null {
+  getRemoteSchema(name: string): RegisteredRemoteSchema | null {
     return this.remoteSchemas?.[name] || null
   }
 
@@ -693,29 +2412,50 @@ export class GQLRegistry {
     return pascalCase(fieldName)
   }
 
-  transformSchema(schema: GraphQLSchema, executor: AsyncExecutor, transforms: Transform<any, Record<string, any>>[] = []): GraphQLSchema {
+  transformSchema(schema: GraphQLSchema, executor: AsyncExecutor, transforms: Transform<any, Record<string, any>>[] = [], naming: GQLRemoteNaming = 'default', namespace?: GQLRemoteNamespace): GraphQLSchema {
     const wrappedSchema = wrapSchema({
       schema,
       executor,
       transforms: [
-        new RenameTypes((name) => this.renameTypes(name)),
-        new RenameRootTypes((name) => this.renameTypes(name)),
-        new RenameRootFields((operationName, fieldName) => camelCase(fieldName)),
-        new RenameObjectFields((typeName, fieldName) => this.renameFields(fieldName)),
-        new RenameInterfaceFields((typeName, fieldName) => this.renameFields(fieldName)),
-        new RenameInputObjectFields((typeName, fieldName) => this.renameFields(fieldName)),
+        ...createNamingTransforms(schema, naming, {
+          renameType: (name) => this.renameTypes(name),
+          renameField: (name) => this.renameFields(name),
+        }),
+        ...createNamespaceTransforms(namespace),
         ...transforms,
       ],
     })
     return wrappedSchema
   }
 
+  private wrapRemoteSchema(remote: RegisteredRemoteSchema, schema: GraphQLSchema): GraphQLSchema {
+    return this.transformSchema(schema, remote.batching?.executor ?? remote.executor, remote.transforms, remote.naming, remote.namespace)
+  }
+
+  /**
+   * Returns the batching stats of every remote schema registered with batch
+   */
+
+  getBatchingStats(): { [name: string]: GQLBatchingStats } {
+    const stats: { [name: string]: GQLBatchingStats } = {}
+    Object.keys(this.remoteSchemas).forEach((name: string) => {
+      const { batching } = this.remoteSchemas[name]
+      if (batching) {
+        stats[name] = batching.getStats()
+      }
+    })
+    return stats
+  }
+
   private async preStart(): Promise<void> {
     if (this.hasExecutedPreStart) {
       return
     }
     for (let p = 0; p < this.preStartFunctions.length; p++) {
-      await this.preStartFunctions[p](this)
+      if (!this.executedPreStartFunctions.includes(this.preStartFunctions[p])) {
+        this.executedPreStartFunctions.push(this.preStartFunctions[p])
+        await this.preStartFunctions[p](this)
+      }
     }
     this.hasExecutedPreStart = true
   }
@@ -724,6 +2464,22 @@ export class GQLRegistry {
     if (this.hasProcessedPlugins) {
       return
     }
+    this.pluginBaseState = this.getRegistrationState()
+    this.isProcessingPlugins = true
+    try {
+      await this.runPluginHooks()
+    } catch (err) {
+      this.restoreRegistrationState(this.pluginBaseState)
+      this.pluginBaseState = null
+      this.plugins.forEach((plu) => plu.clear?.())
+      throw err
+    } finally {
+      this.isProcessingPlugins = false
+    }
+    this.hasProcessedPlugins = true
+  }
+
+  private async runPluginHooks(): Promise<void> {
     let schema = this.getDefinitionsDocument()
     let extensions = this.getExtensionDefinitionsDocument()
     for (let p = 0; p < this.plugins.length; p++) {
@@ -781,7 +2537,6 @@ export class GQLRegistry {
       await plugin.validateSchema?.(schema, extensions)
       await plugin.setFinalSchema?.(schema, extensions)
     }
-    this.hasProcessedPlugins = true
   }
 
   private async updatePluginSchemas(): Promise<void> {
@@ -799,7 +2554,7 @@ export class GQLRegistry {
 
     const globalPluginDirectiveDefinitions = await plugin.addDirectiveDefinitions?.(schema, extensions)
     if (globalPluginDirectiveDefinitions) {
-      this.mergeIncomingDirectives(globalPluginDirectiveDefinitions)
+      this.mergeIncomingDirectives(globalPluginDirectiveDefinitions, this.getPluginProvenance(plugin, 'addDirectiveDefinitions'))
       await this.updatePluginSchemas()
     }
 
@@ -809,6 +2564,7 @@ export class GQLRegistry {
 
     const globalPluginDirectiveResolvers = await plugin.addDirectiveResolvers?.(schema, extensions)
     if (globalPluginDirectiveResolvers) {
+      Object.keys(globalPluginDirectiveResolvers).forEach((directiveName: string) => this.recordHistory('directiveResolver', `@${directiveName}`, directiveName in this.directiveResolvers ? 'replaced' : 'added', this.getPluginProvenance(plugin, 'addDirectiveResolvers')))
       this.directiveResolvers = {
         ...this.directiveResolvers,
         ...globalPluginDirectiveResolvers,
@@ -829,7 +2585,7 @@ export class GQLRegistry {
       }
     }
     if (newTypeDefinitions.length) {
-      this.mergeIncomingTypes(newTypeDefinitions)
+      this.mergeIncomingTypes(newTypeDefinitions, this.getPluginProvenance(plugin, 'addPrePropertiesToTypeDefinition'))
       await this.updatePluginSchemas()
     }
 
@@ -847,7 +2603,7 @@ export class GQLRegistry {
       }
     }
     if (newTypeDefinitions.length) {
-      this.mergeIncomingTypes(newTypeDefinitions)
+      this.mergeIncomingTypes(newTypeDefinitions, this.getPluginProvenance(plugin, 'addPostPropertiesToTypeDefinition'))
       await this.updatePluginSchemas()
     }
 
@@ -859,14 +2615,14 @@ export class GQLRegistry {
     const globalPluginTypeDefinitions = await plugin.addTypeDefinitions?.(schema, extensions)
     let didUpdate = false
     if (globalPluginTypeDefinitions) {
-      this.mergeIncomingTypes(globalPluginTypeDefinitions)
+      this.mergeIncomingTypes(globalPluginTypeDefinitions, this.getPluginProvenance(plugin, 'addTypeDefinitions'))
       didUpdate = true
     }
     for (let d = 0; d < typeDefinitions.length; d++) {
       const typeDefinition = typeDefinitions[d]
       const objectPluginTypeDefinitions = await plugin.addTypeDefinitionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginTypeDefinitions) {
-        this.mergeIncomingTypes(objectPluginTypeDefinitions)
+        this.mergeIncomingTypes(objectPluginTypeDefinitions, this.getPluginProvenance(plugin, 'addTypeDefinitionsForTypeDefinition'))
         didUpdate = true
       }
     }
@@ -884,7 +2640,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginTypeDefinitions = await plugin.addTypeDefinitionExtensionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginTypeDefinitions) {
-        this.mergeIncomingExtensionTypes(objectPluginTypeDefinitions)
+        this.mergeIncomingExtensionTypes(objectPluginTypeDefinitions, this.getPluginProvenance(plugin, 'addTypeDefinitionExtensionsForTypeDefinition'))
         didUpdate = true
       }
     }
@@ -899,6 +2655,7 @@ export class GQLRegistry {
     const typeDefinitions: TypeDefinitionNode[] = schema.definitions as Mutable<TypeDefinitionNode[]> ?? []
     const globalPluginTypeResolvers = await plugin.addTypeResolvers?.(schema, extensions)
     if (globalPluginTypeResolvers) {
+      this.recordTypeResolverHistory(globalPluginTypeResolvers, this.typeResolvers, this.getPluginProvenance(plugin, 'addTypeResolvers'))
       this.typeResolvers = {
         ...this.typeResolvers,
         ...globalPluginTypeResolvers,
@@ -908,6 +2665,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginTypeResolvers = await plugin.addTypeResolversForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginTypeResolvers) {
+        this.recordTypeResolverHistory(objectPluginTypeResolvers, this.typeResolvers, this.getPluginProvenance(plugin, 'addTypeResolversForTypeDefinition'))
         this.typeResolvers = {
           ...this.typeResolvers,
           ...objectPluginTypeResolvers,
@@ -924,6 +2682,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginTypeResolvers = await plugin.addTypeResolverExtensionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginTypeResolvers) {
+        this.recordTypeResolverHistory(objectPluginTypeResolvers, this.extensionTypeResolvers, this.getPluginProvenance(plugin, 'addTypeResolverExtensionsForTypeDefinition'), true)
         this.extensionTypeResolvers = {
           ...this.extensionTypeResolvers,
           ...objectPluginTypeResolvers,
@@ -938,14 +2697,14 @@ export class GQLRegistry {
     const globalPluginQueryDefinitions = await plugin.addQueryDefinitions?.(schema, extensions)
     let didUpdate = false
     if (globalPluginQueryDefinitions) {
-      this.mergeIncomingQueries(globalPluginQueryDefinitions)
+      this.mergeIncomingQueries(globalPluginQueryDefinitions, this.getPluginProvenance(plugin, 'addQueryDefinitions'))
       didUpdate = true
     }
     for (let d = 0; d < typeDefinitions.length; d++) {
       const typeDefinition = typeDefinitions[d]
       const objectPluginQueryDefinitions = await plugin.addQueryDefinitionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginQueryDefinitions) {
-        this.mergeIncomingQueries(objectPluginQueryDefinitions)
+        this.mergeIncomingQueries(objectPluginQueryDefinitions, this.getPluginProvenance(plugin, 'addQueryDefinitionsForTypeDefinition'))
         didUpdate = true
       }
     }
@@ -963,7 +2722,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginQueryDefinitions = await plugin.addQueryDefinitionExtensionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginQueryDefinitions) {
-        this.mergeIncomingExtensionQueries(objectPluginQueryDefinitions)
+        this.mergeIncomingExtensionQueries(objectPluginQueryDefinitions, this.getPluginProvenance(plugin, 'addQueryDefinitionExtensionsForTypeDefinition'))
         didUpdate = true
       }
     }
@@ -978,6 +2737,7 @@ export class GQLRegistry {
     const typeDefinitions: TypeDefinitionNode[] = schema.definitions as Mutable<TypeDefinitionNode[]> ?? []
     const globalPluginQueryResolvers = await plugin.addQueryResolvers?.(schema, extensions)
     if (globalPluginQueryResolvers) {
+      this.recordResolverHistory('Query', globalPluginQueryResolvers, this.queryResolvers, this.getPluginProvenance(plugin, 'addQueryResolvers'))
       this.queryResolvers = {
         ...this.queryResolvers,
         ...globalPluginQueryResolvers,
@@ -987,6 +2747,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginQueryResolvers = await plugin.addQueryResolversForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginQueryResolvers) {
+        this.recordResolverHistory('Query', objectPluginQueryResolvers, this.queryResolvers, this.getPluginProvenance(plugin, 'addQueryResolversForTypeDefinition'))
         this.queryResolvers = {
           ...this.queryResolvers,
           ...objectPluginQueryResolvers,
@@ -1003,6 +2764,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginQueryResolvers = await plugin.addQueryResolverExtensionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginQueryResolvers) {
+        this.recordResolverHistory('Query', objectPluginQueryResolvers, this.extensionQueryResolvers, this.getPluginProvenance(plugin, 'addQueryResolverExtensionsForTypeDefinition'), true)
         this.extensionQueryResolvers = {
           ...this.extensionQueryResolvers,
           ...objectPluginQueryResolvers,
@@ -1018,14 +2780,14 @@ export class GQLRegistry {
     const globalPluginMutationDefinitions = await plugin.addMutationDefinitions?.(schema, extensions)
     let didUpdate = false
     if (globalPluginMutationDefinitions) {
-      this.mergeIncomingMutations(globalPluginMutationDefinitions)
+      this.mergeIncomingMutations(globalPluginMutationDefinitions, this.getPluginProvenance(plugin, 'addMutationDefinitions'))
       didUpdate = true
     }
     for (let d = 0; d < typeDefinitions.length; d++) {
       const typeDefinition = typeDefinitions[d]
       const objectPluginMutationDefinitions = await plugin.addMutationDefinitionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginMutationDefinitions) {
-        this.mergeIncomingMutations(objectPluginMutationDefinitions)
+        this.mergeIncomingMutations(objectPluginMutationDefinitions, this.getPluginProvenance(plugin, 'addMutationDefinitionsForTypeDefinition'))
         didUpdate = true
       }
     }
@@ -1043,7 +2805,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginMutationDefinitions = await plugin.addMutationDefinitionExtensionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginMutationDefinitions) {
-        this.mergeIncomingExtensionMutations(objectPluginMutationDefinitions)
+        this.mergeIncomingExtensionMutations(objectPluginMutationDefinitions, this.getPluginProvenance(plugin, 'addMutationDefinitionExtensionsForTypeDefinition'))
         didUpdate = true
       }
     }
@@ -1058,6 +2820,7 @@ export class GQLRegistry {
     const typeDefinitions: TypeDefinitionNode[] = schema.definitions as Mutable<TypeDefinitionNode[]> ?? []
     const globalPluginMutationResolvers = await plugin.addMutationResolvers?.(schema, extensions)
     if (globalPluginMutationResolvers) {
+      this.recordResolverHistory('Mutation', globalPluginMutationResolvers, this.mutationResolvers, this.getPluginProvenance(plugin, 'addMutationResolvers'))
       this.mutationResolvers = {
         ...this.mutationResolvers,
         ...globalPluginMutationResolvers,
@@ -1067,6 +2830,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginMutationResolvers = await plugin.addMutationResolversForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginMutationResolvers) {
+        this.recordResolverHistory('Mutation', objectPluginMutationResolvers, this.mutationResolvers, this.getPluginProvenance(plugin, 'addMutationResolversForTypeDefinition'))
         this.mutationResolvers = {
           ...this.mutationResolvers,
           ...objectPluginMutationResolvers,
@@ -1083,6 +2847,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginMutationResolvers = await plugin.addMutationResolverExtensionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginMutationResolvers) {
+        this.recordResolverHistory('Mutation', objectPluginMutationResolvers, this.extensionMutationResolvers, this.getPluginProvenance(plugin, 'addMutationResolverExtensionsForTypeDefinition'), true)
         this.extensionMutationResolvers = {
           ...this.extensionMutationResolvers,
           ...objectPluginMutationResolvers,
@@ -1098,14 +2863,14 @@ export class GQLRegistry {
     const globalPluginSubscriptionDefinitions = await plugin.addSubscriptionDefinitions?.(schema, extensions)
     let didUpdate = false
     if (globalPluginSubscriptionDefinitions) {
-      this.mergeIncomingSubscriptions(globalPluginSubscriptionDefinitions)
+      this.mergeIncomingSubscriptions(globalPluginSubscriptionDefinitions, this.getPluginProvenance(plugin, 'addSubscriptionDefinitions'))
       didUpdate = true
     }
     for (let d = 0; d < typeDefinitions.length; d++) {
       const typeDefinition = typeDefinitions[d]
       const objectPluginSubscriptionDefinitions = await plugin.addSubscriptionDefinitionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginSubscriptionDefinitions) {
-        this.mergeIncomingSubscriptions(objectPluginSubscriptionDefinitions)
+        this.mergeIncomingSubscriptions(objectPluginSubscriptionDefinitions, this.getPluginProvenance(plugin, 'addSubscriptionDefinitionsForTypeDefinition'))
         didUpdate = true
       }
     }
@@ -1123,7 +2888,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginSubscriptionDefinitions = await plugin.addSubscriptionDefinitionExtensionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginSubscriptionDefinitions) {
-        this.mergeIncomingExtensionSubscriptions(objectPluginSubscriptionDefinitions)
+        this.mergeIncomingExtensionSubscriptions(objectPluginSubscriptionDefinitions, this.getPluginProvenance(plugin, 'addSubscriptionDefinitionExtensionsForTypeDefinition'))
         didUpdate = true
       }
     }
@@ -1138,6 +2903,7 @@ export class GQLRegistry {
     const typeDefinitions: TypeDefinitionNode[] = schema.definitions as Mutable<TypeDefinitionNode[]> ?? []
     const globalPluginSubscriptionResolvers = await plugin.addSubscriptionResolvers?.(schema, extensions)
     if (globalPluginSubscriptionResolvers) {
+      this.recordResolverHistory('Subscription', globalPluginSubscriptionResolvers, this.subscriptionResolvers, this.getPluginProvenance(plugin, 'addSubscriptionResolvers'))
       this.subscriptionResolvers = {
         ...this.subscriptionResolvers,
         ...globalPluginSubscriptionResolvers,
@@ -1147,6 +2913,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginSubscriptionResolvers = await plugin.addSubscriptionResolversForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginSubscriptionResolvers) {
+        this.recordResolverHistory('Subscription', objectPluginSubscriptionResolvers, this.subscriptionResolvers, this.getPluginProvenance(plugin, 'addSubscriptionResolversForTypeDefinition'))
         this.subscriptionResolvers = {
           ...this.subscriptionResolvers,
           ...objectPluginSubscriptionResolvers,
@@ -1163,6 +2930,7 @@ export class GQLRegistry {
       const typeDefinition = typeDefinitions[d]
       const objectPluginSubscriptionResolvers = await plugin.addSubscriptionResolverExtensionsForTypeDefinition?.(typeDefinition, schema, extensions)
       if (objectPluginSubscriptionResolvers) {
+        this.recordResolverHistory('Subscription', objectPluginSubscriptionResolvers, this.extensionSubscriptionResolvers, this.getPluginProvenance(plugin, 'addSubscriptionResolverExtensionsForTypeDefinition'), true)
         this.extensionSubscriptionResolvers = {
           ...this.extensionSubscriptionResolvers,
           ...objectPluginSubscriptionResolvers,
@@ -1180,48 +2948,132 @@ export class GQLRegistry {
     return plugin
   }
 
+  getFederationResolvers(): { [s: string]: any } {
+    const resolvers = this.getResolvers()
+    Object.keys(this.entities).forEach((typeName: string) => {
+      const resolveReference = this.entities[typeName].resolveReference
+      if (resolveReference && (resolvers[typeName] === undefined || isPlainObject(resolvers[typeName]))) {
+        resolvers[typeName] = {
+          ...resolvers[typeName],
+          __resolveReference: resolveReference,
+        }
+      }
+    })
+    return resolvers
+  }
+
+  /**
+   * Builds the local types as an Apollo Federation v2 subgraph, entity keys and reference resolvers come from the entities passed to registerType
+   */
+
   async getFederatableSchema(): Promise<GraphQLSchema> {
     await this.preStart()
     await this.processPlugins()
-    let localSchema = makeExecutableSchema({
-      typeDefs: this.getDefinitionsDocument(),
-      resolvers: this.getResolvers(),
+    const typeDefs = applyFederationDirectives(this.getDefinitionsDocument(), this.entities)
+    const resolvers = this.getFederationResolvers()
+    const errors = validateFederation(typeDefs, resolvers, this.entities)
+    if (errors.length) {
+      throw new GraphQLError(`Invalid federation schema:\n${errors.map((err) => `  - ${err}`).join('\n')}`, {
+        extensions: {
+          code: 'FEDERATION_VALIDATION_ERROR',
+          errors,
+        },
+      })
+    }
+    let localSchema = buildSubgraphSchema({
+      typeDefs,
+      resolvers,
     })
     for (let d = 0; d < Object.keys(this.directiveResolvers).length; d++) {
       localSchema = this.directiveResolvers[Object.keys(this.directiveResolvers)[d]](localSchema)
     }
-    return localSchema
+    return applyAuthDirectives(applyMiddleware(localSchema, this.middlewares), this.policies, this.options.getRoles)
   }
 
-  async getSchema(): Promise<GraphQLSchema> {
-    await this.preStart()
-    await this.processPlugins()
-    const localSchema = makeExecutableSchema({
-      typeDefs: this.getDefinitionsDocument(),
-    })
+  /**
+   * Wraps every remote schema for stitching, a remote is only fetched again when refresh is set, otherwise the schema it returned last is reused
+   */
+
+  async loadRemoteSchemas(refresh = false): Promise<GraphQLSchema[]> {
     const remoteSchemas: (GraphQLSchema)[] = []
     for (let r = 0; r < Object.keys(this.remoteSchemas).length; r++) {
       const name = Object.keys(this.remoteSchemas)[r]
-      const executor = this.remoteSchemas[name].executor
-      const transforms = this.remoteSchemas[name].transforms
-      if (this.remoteSchemas[name].asyncSchema) {
-        const schema = await this.remoteSchemas[name].asyncSchema?.()
-        if (schema) {
-          const wrappedSchema = this.transformSchema(schema, executor, transforms)
-          remoteSchemas.push(wrappedSchema)
-          this.remoteSchemas[name].executable = wrappedSchema
-        }
-      } else if (this.remoteSchemas[name].schema) {
-        const schema = await this.remoteSchemas[name].schema
-        if (schema) {
-          const wrappedSchema = this.transformSchema(schema, executor, transforms)
-          remoteSchemas.push(wrappedSchema)
-          this.remoteSchemas[name].executable = wrappedSchema
-        }
+      const remote = this.remoteSchemas[name]
+      if (!remote.loadedSchema || refresh || this.remoteSchemaHealth[name]?.status !== 'loaded') {
+        remote.loadedSchema = await this.fetchRemoteSchema(remote)
+      }
+      if (remote.loadedSchema) {
+        const wrappedSchema = this.wrapRemoteSchema(remote, remote.loadedSchema)
+        remoteSchemas.push(wrappedSchema)
+        remote.executable = wrappedSchema
+      } else {
+        remote.executable = undefined
+      }
+    }
+    return remoteSchemas
+  }
+
+  /**
+   * Fetches a remote schema and applies its failure policy when the fetch fails: required remotes rethrow, the others keep the schema already loaded, fall back to the SDL cached on disk (cache) or are left out of the gateway
+   */
+
+  private async fetchRemoteSchema(remote: RegisteredRemoteSchema): Promise<GraphQLSchema | undefined> {
+    const { name, onFailure = 'required' } = remote
+    const cacheFile = remote.cacheFile ?? path.join(this.options.remoteSchemaCacheDirectory, `${name}.graphql`)
+    const previousHealth = this.remoteSchemaHealth[name]
+    try {
+      const schema = (remote.asyncSchema ? await remote.asyncSchema() : remote.schema) ?? undefined
+      this.remoteSchemaHealth[name] = { name, status: 'loaded', checkedAt: new Date(), loadedAt: new Date() }
+      if (schema && onFailure === 'cache') {
+        await writeCachedSchema(cacheFile, schema).catch((err) => console.warn(`Could not cache the schema of remote ${name} in ${cacheFile}: ${err.message}`))
+      }
+      return schema
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      const health: GQLRemoteSchemaHealth = { name, status: 'failed', checkedAt: new Date(), loadedAt: previousHealth?.loadedAt, error }
+      this.remoteSchemaHealth[name] = health
+      if (onFailure === 'required') {
+        throw err
       }
+      const fallback = remote.loadedSchema ?? (onFailure === 'cache' ? await readCachedSchema(cacheFile) : null) ?? undefined
+      health.status = fallback ? 'cached' : 'skipped'
+      this.events.emit('remoteSchemaError', error, name)
+      return fallback
     }
+  }
+
+  /**
+   * Reports for every remote schema fetched so far whether it was loaded, skipped, served from a cached schema or failed the last time it was fetched
+   */
+
+  getRemoteSchemaHealth(): GQLRemoteSchemaHealth[] {
+    return Object.keys(this.remoteSchemaHealth).map((name: string) => ({ ...this.remoteSchemaHealth[name] }))
+  }
+
+  /**
+   * Pairs the local schema and the loaded remote schemas with their merge config, so types they share are resolved across them by key
+   */
+
+  private getSubschemas(localSchema: GraphQLSchema): SubschemaConfig[] {
+    const subschemas: SubschemaConfig[] = [{ schema: localSchema, merge: createMergeConfig(this.mergedTypes, localSchema, 'the local schema') }]
+    Object.keys(this.remoteSchemas).forEach((name: string) => {
+      const { executable, merge = {} } = this.remoteSchemas[name]
+      if (executable) {
+        subschemas.push({ schema: executable, merge: createMergeConfig(merge, executable, `remote ${name}`) })
+      }
+    })
+    return subschemas
+  }
+
+  async getSchema(): Promise<GraphQLSchema> {
+    await this.preStart()
+    await this.processPlugins()
+    const localSchema = makeExecutableSchema({
+      typeDefs: stripFederationDirectives(this.getDefinitionsDocument()),
+    })
+    await this.loadRemoteSchemas()
     const gatewaySchema = stitchSchemas({
-      subschemas: [localSchema, ...remoteSchemas],
+      subschemas: this.getSubschemas(localSchema),
       mergeTypes: true,
       typeDefs: this.getExtensionDefinitionsDocument(),
     })
@@ -1232,43 +3084,234 @@ export class GQLRegistry {
     await this.preStart()
     await this.processPlugins()
     if (!this.executableSchema) {
-      const localSchema = makeExecutableSchema({
-        typeDefs: this.getDefinitionsDocument(),
-        resolvers: this.getResolvers(),
+      this.executableSchema = await this.buildExecutableSchema()
+      this.startPolling()
+    }
+    return this.executableSchema!
+  }
+
+  private async buildExecutableSchema(): Promise<GraphQLSchema> {
+    const remoteSchemas = await this.loadRemoteSchemas()
+    this.reportDiagnostics(this.getDiagnostics(remoteSchemas, remoteSchemas.length < Object.keys(this.remoteSchemas).length))
+    const localSchema = applyMiddleware(makeExecutableSchema({
+      typeDefs: stripFederationDirectives(this.getDefinitionsDocument()),
+      resolvers: this.getResolvers(),
+    }), this.middlewares)
+    let gatewaySchema = stitchSchemas({
+      subschemas: this.getSubschemas(localSchema),
+      mergeTypes: true,
+      typeDefs: this.getExtensionDefinitionsDocument(),
+      resolvers: this.getExtensionResolvers(),
+    })
+    for (let d = 0; d < Object.keys(this.directiveResolvers).length; d++) {
+      gatewaySchema = this.directiveResolvers[Object.keys(this.directiveResolvers)[d]](gatewaySchema)
+    }
+    gatewaySchema = applyAuthDirectives(applyMiddleware(gatewaySchema, this.middlewares, localSchema), this.policies, this.options.getRoles)
+    const changes = this.lastBuiltSchema ? diffSchemas(this.lastBuiltSchema, gatewaySchema) : []
+    this.lastBuiltSchema = gatewaySchema
+    this.reportSchemaChanges(changes)
+    this.events.emit('schemaChanged', gatewaySchema, changes)
+    return gatewaySchema
+  }
+
+  /**
+   * Prints the SDL of the schema built after plugins have run, remote schemas and type extensions are included unless turned off. The SDL is written to `file` when one is given
+   */
+
+  async printSDL({ includeRemote = true, includeExtensions = true, sorted = false, file }: GQLRegistryPrintSDLOptions = {}): Promise<string> {
+    const filePath = file ? resolveFromCaller(file, getCallerLocation()) : undefined
+    const schema = includeRemote && includeExtensions ? await this.getExecutableSchema() : await this.buildPartialSchema(includeRemote, includeExtensions)
+    const sdl = printSchema(sorted ? lexicographicSortSchema(schema) : schema)
+    if (filePath) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.promises.writeFile(filePath, `${sdl}\n`)
+    }
+    return sdl
+  }
+
+  /**
+   * Compares the printed SDL with a snapshot file and throws a diff of the two when they differ, the snapshot is written instead when `update` is set
+   */
+
+  async assertMatchesSnapshot(file: string, { update = false, sorted = true, ...options }: GQLRegistrySnapshotOptions = {}): Promise<void> {
+    const filePath = resolveFromCaller(file, getCallerLocation())
+    const sdl = await this.printSDL({ ...options, sorted })
+    if (update) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.promises.writeFile(filePath, `${sdl}\n`)
+      return
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new GraphQLError(`Schema snapshot ${filePath} does not exist, run with update to create it`, {
+        extensions: {
+          code: 'SCHEMA_SNAPSHOT_MISSING',
+          file: filePath,
+        },
       })
-      const remoteSchemas: (GraphQLSchema)[] = []
-      for (let r = 0; r < Object.keys(this.remoteSchemas).length; r++) {
-        const name = Object.keys(this.remoteSchemas)[r]
-        const executor = this.remoteSchemas[name].executor
-        const transforms = this.remoteSchemas[name].transforms
-        if (this.remoteSchemas[name].asyncSchema) {
-          const schema = await this.remoteSchemas[name].asyncSchema?.()
-          if (schema) {
-            const wrappedSchema = this.transformSchema(schema, executor, transforms)
-            remoteSchemas.push(wrappedSchema)
-            this.remoteSchemas[name].executable = wrappedSchema
-          }
-        } else if (this.remoteSchemas[name].schema) {
-          const schema = await this.remoteSchemas[name].schema
-          if (schema) {
-            const wrappedSchema = this.transformSchema(schema, executor, transforms)
-            remoteSchemas.push(wrappedSchema)
-            this.remoteSchemas[name].executable = wrappedSchema
-          }
-        }
-      }
-      let gatewaySchema = stitchSchemas({
-        subschemas: [localSchema, ...remoteSchemas],
+    }
+    const snapshot = (await fs.promises.readFile(filePath, 'utf8')).trimEnd()
+    if (snapshot === sdl) {
+      return
+    }
+    let changes: GQLSchemaChange[] = []
+    try {
+      changes = diffSchemas(buildASTSchema(parse(snapshot), { assumeValidSDL: true }), buildASTSchema(parse(sdl), { assumeValidSDL: true }))
+    } catch (err) {
+      // a snapshot that no longer parses is only reported through the line diff
+    }
+    throw new GraphQLError(`Schema does not match the snapshot ${filePath}:\n${diffLines(snapshot, sdl)}`, {
+      extensions: {
+        code: 'SCHEMA_SNAPSHOT_MISMATCH',
+        file: filePath,
+        changes,
+      },
+    })
+  }
+
+  /**
+   * Writes TypeScript types for the built schema to a file and returns them, pass the generated RegistryResolvers to registerType to check resolvers against the schema
+   */
+
+  async generateTypes(file: string, options: GQLCodegenOptions = {}): Promise<string> {
+    const filePath = resolveFromCaller(file, getCallerLocation())
+    const source = generateTypeScript(await this.getExecutableSchema(), options)
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.promises.writeFile(filePath, source)
+    return source
+  }
+
+  /**
+   * Builds the schema printed by printSDL when remote schemas or type extensions are left out. Without remote schemas only extensions of local types are kept, and only their fields referencing local types
+   */
+
+  private async buildPartialSchema(includeRemote: boolean, includeExtensions: boolean): Promise<GraphQLSchema> {
+    await this.preStart()
+    await this.processPlugins()
+    const localSchema = makeExecutableSchema({
+      typeDefs: stripFederationDirectives(this.getDefinitionsDocument()),
+    })
+    if (includeRemote) {
+      await this.loadRemoteSchemas()
+      return stitchSchemas({
+        subschemas: this.getSubschemas(localSchema),
         mergeTypes: true,
-        typeDefs: this.getExtensionDefinitionsDocument(),
-        resolvers: this.getExtensionResolvers(),
       })
-      for (let d = 0; d < Object.keys(this.directiveResolvers).length; d++) {
-        gatewaySchema = this.directiveResolvers[Object.keys(this.directiveResolvers)[d]](gatewaySchema)
+    }
+    if (!includeExtensions) {
+      return localSchema
+    }
+    const isLocal = (node: ASTNode) => {
+      let local = true
+      visit(node, {
+        NamedType(named) {
+          local = local && !!localSchema.getType(named.name.value)
+        },
+      })
+      return local
+    }
+    const keepLocal = (nodes: readonly ASTNode[]) => nodes.filter(isLocal)
+    const definitions = this.getExtensionDefinitionsDocument().definitions
+      .filter((definition): definition is TypeExtensionNode => definition.kind !== Kind.DIRECTIVE_DEFINITION && 'name' in definition && !!definition.name && !!localSchema.getType(definition.name.value))
+      .map((definition) => ({
+        ...definition,
+        ...('fields' in definition && definition.fields ? { fields: keepLocal(definition.fields) } : {}),
+        ...('interfaces' in definition && definition.interfaces ? { interfaces: keepLocal(definition.interfaces) } : {}),
+        ...('types' in definition && definition.types ? { types: keepLocal(definition.types) } : {}),
+        ...('values' in definition && definition.values ? { values: keepLocal(definition.values) } : {}),
+      }) as TypeExtensionNode)
+    return extendSchema(localSchema, { kind: Kind.DOCUMENT, definitions })
+  }
+
+  /**
+   * Compares the executable schema against a previous schema, SDL string or schema file and classifies every change as breaking, dangerous or safe
+   */
+
+  async diff(previous: GraphQLSchema | GQLRegistryDocument): Promise<GQLSchemaChange[]> {
+    const previousSchema = previous instanceof GraphQLSchema ? previous : buildASTSchema(loadDocument(previous, getCallerLocation()), { assumeValidSDL: true })
+    return diffSchemas(previousSchema, await this.getExecutableSchema())
+  }
+
+  reportSchemaChanges(changes: GQLSchemaChange[]): void {
+    const severities: GQLSchemaChangeSeverity[] = ['breaking', 'dangerous', 'safe']
+    const { reportSchemaChanges } = this.options
+    if (reportSchemaChanges === 'none') {
+      return
+    }
+    changes.filter((change) => severities.indexOf(change.severity) <= severities.indexOf(reportSchemaChanges)).forEach((change) => {
+      console.warn(`WARNING: ${change.severity} schema change: ${change.detail}`)
+    })
+  }
+
+  /**
+   * Fetches remote schemas again and, when any of them changed, stitches a new gateway schema and swaps it in. Operations already executing keep the schema they started with
+   */
+
+  async refreshRemoteSchemas(names: string[] = Object.keys(this.remoteSchemas)): Promise<GQLRegistryRemoteSchemaChange[]> {
+    const changed: { name: string, loaded: GraphQLSchema, previous: GraphQLSchema | null, previousLoaded?: GraphQLSchema }[] = []
+    for (let n = 0; n < names.length; n++) {
+      const remote = this.remoteSchemas[names[n]]
+      if (!remote) {
+        continue
+      }
+      const previousSchema = remote.loadedSchema
+      const schema = await this.fetchRemoteSchema(remote)
+      if (!schema || (previousSchema && printSchema(previousSchema) === printSchema(schema))) {
+        continue
+      }
+      changed.push({ name: remote.name, loaded: schema, previous: previousSchema ? remote.executable ?? this.wrapRemoteSchema(remote, previousSchema) : null, previousLoaded: previousSchema })
+      remote.loadedSchema = schema
+    }
+    if (!changed.length) {
+      return []
+    }
+    if (this.executableSchema) {
+      try {
+        this.executableSchema = await this.buildExecutableSchema()
+      } catch (err) {
+        changed.forEach(({ name, previousLoaded }) => {
+          this.remoteSchemas[name].loadedSchema = previousLoaded
+          this.remoteSchemas[name].executable = previousLoaded ? this.wrapRemoteSchema(this.remoteSchemas[name], previousLoaded) : undefined
+        })
+        throw err
       }
-      this.executableSchema = gatewaySchema
     }
-    return this.executableSchema!
+    const remoteChanges = changed.map(({ name, loaded, previous }) => {
+      const remote = this.remoteSchemas[name]
+      const schema = this.executableSchema && remote.executable ? remote.executable : this.wrapRemoteSchema(remote, loaded)
+      return { name, schema, changes: previous ? diffSchemas(previous, schema) : [] }
+    })
+    remoteChanges.forEach((change) => this.events.emit('remoteSchemaChanged', change))
+    return remoteChanges
+  }
+
+  /**
+   * Starts polling every remote registered with a pollInterval, called once the executable schema has been built
+   */
+
+  startPolling(): void {
+    Object.keys(this.remoteSchemas).forEach((name: string) => {
+      const { pollInterval } = this.remoteSchemas[name]
+      if (!pollInterval || this.pollTimers[name]) {
+        return
+      }
+      const poll = () => {
+        this.refreshRemoteSchemas([name])
+          .catch((err) => this.events.emit('remoteSchemaError', err, name))
+          .finally(() => {
+            if (this.pollTimers[name]) {
+              this.pollTimers[name] = setTimeout(poll, pollInterval).unref()
+            }
+          })
+      }
+      this.pollTimers[name] = setTimeout(poll, pollInterval).unref()
+    })
+  }
+
+  stopPolling(name?: string): void {
+    Object.keys(this.pollTimers).filter((timerName) => name === undefined || timerName === name).forEach((timerName: string) => {
+      clearTimeout(this.pollTimers[timerName])
+      delete this.pollTimers[timerName]
+    })
   }
 
 }
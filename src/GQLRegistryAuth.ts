@@ -0,0 +1,147 @@
+import { ASTNode, BREAK, defaultFieldResolver, DirectiveDefinitionNode, GraphQLError, GraphQLFieldConfig, GraphQLFieldResolver, GraphQLNamedType, GraphQLResolveInfo, GraphQLSchema, Kind, parse, visit } from 'graphql'
+
+import { getDirective, MapperKind, mapSchema } from '@graphql-tools/utils'
+
+export interface GQLPolicyDetails {
+  parent: unknown
+  args: { [argName: string]: unknown }
+  info: GraphQLResolveInfo
+}
+
+export type GQLPolicy<TContext = GQLContext> = (context: TContext, details: GQLPolicyDetails) => boolean | Promise<boolean>
+
+export type GQLRoleResolver<TContext = GQLContext> = (context: TContext) => string[] | null | undefined
+
+interface AuthRequirement {
+  coordinate: string
+  authenticated: boolean
+  roles: string[]
+  policies: string[]
+}
+
+export const authDirectiveNames = ['auth', 'policy']
+
+export function createAuthDirectiveDefinitions(roleType: string): DirectiveDefinitionNode[] {
+  return parse(`
+    directive @auth(requires: [${roleType}!]) on OBJECT | FIELD_DEFINITION
+    directive @policy(name: String!) repeatable on OBJECT | FIELD_DEFINITION
+  `).definitions.filter((definition): definition is DirectiveDefinitionNode => definition.kind === Kind.DIRECTIVE_DEFINITION)
+}
+
+export function usesAuthDirectives(nodes: ASTNode[]): boolean {
+  let used = false
+  for (let n = 0; n < nodes.length && !used; n++) {
+    visit(nodes[n], {
+      Directive(node) {
+        if (authDirectiveNames.includes(node.name.value)) {
+          used = true
+          return BREAK
+        }
+        return undefined
+      },
+    })
+  }
+  return used
+}
+
+function isRoleList(roles: unknown): roles is string[] {
+  return Array.isArray(roles) && roles.every((role) => typeof role === 'string')
+}
+
+/**
+ * Roles of the current user, read from `context.currentUser.roles` or `context.roles`. Returns null when the request is not authenticated
+ */
+
+export const defaultRoleResolver: GQLRoleResolver<unknown> = (context) => {
+  if (typeof context !== 'object' || !context) {
+    return null
+  }
+  if ('currentUser' in context && context.currentUser) {
+    const { currentUser } = context
+    return typeof currentUser === 'object' && 'roles' in currentUser && isRoleList(currentUser.roles) ? currentUser.roles : []
+  }
+  return 'roles' in context && isRoleList(context.roles) ? context.roles : null
+}
+
+function forbiddenError(message: string, coordinate: string, extensions: { [key: string]: unknown } = {}): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: {
+      code: 'FORBIDDEN',
+      coordinate,
+      ...extensions,
+    },
+  })
+}
+
+function getRequirement(schema: GraphQLSchema, node: GraphQLNamedType | GraphQLFieldConfig<unknown, unknown>, coordinate: string): AuthRequirement | null {
+  const auth = getDirective(schema, node, 'auth')?.[0]
+  const policies = (getDirective(schema, node, 'policy') ?? []).map((policy) => policy.name as string)
+  if (!auth && !policies.length) {
+    return null
+  }
+  return { coordinate, authenticated: !!auth, roles: auth?.requires ?? [], policies }
+}
+
+async function authorize(requirements: AuthRequirement[], policies: { [name: string]: GQLPolicy<any> }, getRoles: GQLRoleResolver, parent: unknown, args: { [argName: string]: unknown }, context: GQLContext, info: GraphQLResolveInfo): Promise<void> {
+  for (let r = 0; r < requirements.length; r++) {
+    const { coordinate, authenticated, roles } = requirements[r]
+    if (authenticated) {
+      const userRoles = getRoles(context)
+      if (!userRoles) {
+        throw forbiddenError(`Not authenticated to access ${coordinate}`, coordinate, { reason: 'unauthenticated' })
+      }
+      if (roles.length && !roles.some((role) => userRoles.includes(role))) {
+        throw forbiddenError(`Access to ${coordinate} requires one of the roles ${roles.join(', ')}`, coordinate, { reason: 'role', requires: roles })
+      }
+    }
+    for (let p = 0; p < requirements[r].policies.length; p++) {
+      const policy = requirements[r].policies[p]
+      if (!await policies[policy](context, { parent, args, info })) {
+        throw forbiddenError(`Access to ${coordinate} denied by policy ${policy}`, coordinate, { reason: 'policy', policy })
+      }
+    }
+  }
+}
+
+/**
+ * Wraps the resolver of every field carrying @auth or @policy, or belonging to a type carrying them, so the checks run before the field resolves. Subscription fields are checked when subscribing
+ */
+
+export function applyAuthDirectives(schema: GraphQLSchema, policies: { [name: string]: GQLPolicy<any> }, getRoles: GQLRoleResolver): GraphQLSchema {
+  const unknown: string[] = []
+  const typeRequirements: { [typeName: string]: AuthRequirement | null } = {}
+  const requirementOf = (node: GraphQLNamedType | GraphQLFieldConfig<unknown, unknown>, coordinate: string) => {
+    const requirement = getRequirement(schema, node, coordinate)
+    requirement?.policies.filter((policy) => !policies[policy]).forEach((policy) => unknown.push(`${coordinate} uses unknown policy ${policy}`))
+    return requirement
+  }
+  const mapped = mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, fieldName, typeName) => {
+      const type = schema.getType(typeName)
+      if (type && !(typeName in typeRequirements)) {
+        typeRequirements[typeName] = requirementOf(type, typeName)
+      }
+      const requirements = [typeRequirements[typeName], requirementOf(fieldConfig, `${typeName}.${fieldName}`)].filter((requirement): requirement is AuthRequirement => !!requirement)
+      if (!requirements.length) {
+        return fieldConfig
+      }
+      const guard = (resolve: GraphQLFieldResolver<unknown, GQLContext>): GraphQLFieldResolver<unknown, GQLContext> => async (parent, args, context, info) => {
+        await authorize(requirements, policies, getRoles, parent, args, context, info)
+        return resolve(parent, args, context, info)
+      }
+      if (fieldConfig.subscribe) {
+        return { ...fieldConfig, subscribe: guard(fieldConfig.subscribe) }
+      }
+      return { ...fieldConfig, resolve: guard(fieldConfig.resolve ?? defaultFieldResolver) }
+    },
+  })
+  if (unknown.length) {
+    throw new GraphQLError(`Unknown policies:\n${unknown.map((message) => `  - ${message}`).join('\n')}`, {
+      extensions: {
+        code: 'UNKNOWN_POLICY',
+        unknown,
+      },
+    })
+  }
+  return mapped
+}
@@ -0,0 +1,121 @@
+import { getOperationAST, print } from 'graphql'
+
+import { createBatchingExecutor } from '@graphql-tools/batch-execute'
+import { AsyncExecutor, ExecutionRequest, ExecutionResult, MaybeAsyncIterable } from '@graphql-tools/utils'
+
+export interface GQLBatchingOptions {
+  maxBatchSize?: number
+  dedupe?: boolean
+}
+
+export interface GQLBatchingStats {
+  operations: number
+  deduplicated: number
+  batches: number
+  largestBatch: number
+  averageBatchSize: number
+  batchSizes: { [size: number]: number }
+}
+
+export interface GQLBatchedExecutor {
+  executor: AsyncExecutor
+  getStats: () => GQLBatchingStats
+  resetStats: () => void
+}
+
+interface ContextBatches {
+  query: AsyncExecutor
+  mutation: AsyncExecutor
+  inFlight: Map<string, Promise<MaybeAsyncIterable<ExecutionResult>>>
+}
+
+function createStats(): GQLBatchingStats {
+  return {
+    operations: 0,
+    deduplicated: 0,
+    batches: 0,
+    largestBatch: 0,
+    averageBatchSize: 0,
+    batchSizes: {},
+  }
+}
+
+/**
+ * Wraps an executor so operations issued in the same tick with the same context are merged into a single request, identical queries already in flight are sent only once
+ */
+
+export function createBatchedExecutor(executor: AsyncExecutor, { maxBatchSize, dedupe = true }: GQLBatchingOptions = {}): GQLBatchedExecutor {
+  let stats = createStats()
+  const batchesByContext = new WeakMap<object, ContextBatches>()
+  const noContext = {}
+
+  const recordBatch = (size: number) => {
+    stats.batches++
+    stats.largestBatch = Math.max(stats.largestBatch, size)
+    stats.batchSizes[size] = (stats.batchSizes[size] ?? 0) + 1
+  }
+
+  // merged requests carry the extensions object built while merging, counting the requests merged into it gives the size of every dispatched batch
+  const mergedSizes = new WeakMap<object, number>()
+  const countMerged = (mergedExtensions: Record<string, unknown>, request: ExecutionRequest) => {
+    mergedSizes.set(mergedExtensions, (mergedSizes.get(mergedExtensions) ?? 0) + 1)
+    return Object.assign(mergedExtensions, request.extensions)
+  }
+  const dispatchBatch: AsyncExecutor = async (request) => {
+    recordBatch((request.extensions && mergedSizes.get(request.extensions)) ?? 1)
+    return executor(request)
+  }
+
+  const createLoader = (): AsyncExecutor => {
+    const loader = createBatchingExecutor(dispatchBatch, {
+      maxBatchSize,
+      batchScheduleFn: (dispatch) => {
+        Promise.resolve().then(() => process.nextTick(dispatch))
+      },
+    }, countMerged)
+    return async <TReturn>(request: ExecutionRequest) => loader<TReturn>(request)
+  }
+
+  const batchedExecutor: AsyncExecutor = async (request) => {
+    const operation = getOperationAST(request.document, request.operationName)?.operation
+    if (operation !== 'query' && operation !== 'mutation') {
+      return executor(request)
+    }
+    const contextKey = request.context && typeof request.context === 'object' ? request.context : noContext
+    let batches = batchesByContext.get(contextKey)
+    if (!batches) {
+      batches = { query: createLoader(), mutation: createLoader(), inFlight: new Map() }
+      batchesByContext.set(contextKey, batches)
+    }
+    stats.operations++
+    if (!dedupe || operation === 'mutation') {
+      return batches[operation](request)
+    }
+    const { inFlight } = batches
+    const key = JSON.stringify([request.operationName, print(request.document), request.variables])
+    const existing = inFlight.get(key)
+    if (existing) {
+      stats.deduplicated++
+      return existing
+    }
+    const result = Promise.resolve(batches.query(request)).finally(() => inFlight.delete(key))
+    inFlight.set(key, result)
+    return result
+  }
+
+  return {
+    executor: batchedExecutor,
+    getStats: () => {
+      const sizes = Object.keys(stats.batchSizes).map(Number)
+      const batched = sizes.reduce((total, size) => total + size * stats.batchSizes[size], 0)
+      return {
+        ...stats,
+        averageBatchSize: stats.batches ? batched / stats.batches : 0,
+        batchSizes: { ...stats.batchSizes },
+      }
+    },
+    resetStats: () => {
+      stats = createStats()
+    },
+  }
+}
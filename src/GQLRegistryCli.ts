@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+import path from 'path'
+
+import { GQLRegistry } from './GQLRegistry'
+import { GQLCodegenOptions } from './GQLRegistryCodegen'
+
+interface CliArgs {
+  command?: string
+  out?: string
+  modules: string[]
+  requires: string[]
+  scalars: { [scalarName: string]: string }
+  contextType?: string
+}
+
+const usage = `Usage: gql-registry generate-types --out <file> [options]
+
+Options:
+  --modules <directory>   Load the registry modules under a directory, can be repeated
+  --require <file>        Require a file registering with the shared registry, can be repeated
+  --scalar <Name=type>    TypeScript type of a custom scalar, can be repeated
+  --context <type>        TypeScript type of the resolver context, defaults to GQLContext`
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { modules: [], requires: [], scalars: {} }
+  for (let a = 0; a < argv.length; a++) {
+    const value = argv[a + 1]
+    switch (argv[a]) {
+      case '--out':
+        args.out = value
+        a++
+        break
+      case '--modules':
+        args.modules.push(value)
+        a++
+        break
+      case '--require':
+        args.requires.push(value)
+        a++
+        break
+      case '--scalar': {
+        const [scalarName, type] = (value ?? '').split('=')
+        if (!scalarName || !type) {
+          throw new Error(usage)
+        }
+        args.scalars[scalarName] = type
+        a++
+        break
+      }
+      case '--context':
+        args.contextType = value
+        a++
+        break
+      default:
+        if (args.command || argv[a].startsWith('-')) {
+          throw new Error(`Unknown argument ${argv[a]}`)
+        }
+        args.command = argv[a]
+    }
+  }
+  return args
+}
+
+export async function runCli(argv: string[]): Promise<void> {
+  const args = parseArgs(argv)
+  if (args.command !== 'generate-types' || !args.out) {
+    throw new Error(usage)
+  }
+  const registry = GQLRegistry.shared()
+  for (let r = 0; r < args.requires.length; r++) {
+    require(path.resolve(args.requires[r]))
+  }
+  for (let m = 0; m < args.modules.length; m++) {
+    await GQLRegistry.loadModules({ directory: path.resolve(args.modules[m]), registry })
+  }
+  const options: GQLCodegenOptions = { scalars: args.scalars, contextType: args.contextType }
+  const file = path.resolve(args.out)
+  try {
+    await registry.generateTypes(file, options)
+  } finally {
+    registry.clear()
+  }
+  console.log(`Wrote schema types to ${file}`)
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).catch((err) => {
+    console.error(err.message)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,154 @@
+import { GraphQLArgument, GraphQLField, GraphQLInputType, GraphQLInterfaceType, GraphQLNamedType, GraphQLObjectType, GraphQLOutputType, GraphQLSchema, isEnumType, isInputObjectType, isInterfaceType, isListType, isNonNullType, isObjectType, isScalarType, isUnionType } from 'graphql'
+
+export interface GQLCodegenOptions {
+  scalars?: { [scalarName: string]: string }
+  contextType?: string
+}
+
+const builtInScalars: { [scalarName: string]: string } = {
+  ID: 'string',
+  String: 'string',
+  Boolean: 'boolean',
+  Int: 'number',
+  Float: 'number',
+}
+
+const header = `/* eslint-disable */
+// Generated by gql-registry, do not edit by hand.
+
+import { GraphQLResolveInfo, GraphQLScalarType } from 'graphql'
+
+declare global {
+  interface GQLContext { }
+}
+
+export type Maybe<T> = T | null
+
+export type DeepPartial<T> = T extends Array<infer U> ? Array<DeepPartial<U>> : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T
+`
+
+function printDescription(description: string | null | undefined, indent = ''): string {
+  if (!description) {
+    return ''
+  }
+  const lines = description.replace(/\*\//g, '*\\/').split('\n')
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`
+}
+
+function printNamedType(type: GraphQLNamedType): string {
+  return isScalarType(type) ? `Scalars['${type.name}']` : type.name
+}
+
+function printType(type: GraphQLOutputType | GraphQLInputType): string {
+  if (isNonNullType(type)) {
+    return isListType(type.ofType) ? `Array<${printType(type.ofType.ofType)}>` : printNamedType(type.ofType)
+  }
+  if (isListType(type)) {
+    return `Maybe<Array<${printType(type.ofType as GraphQLOutputType | GraphQLInputType)}>>`
+  }
+  return `Maybe<${printNamedType(type)}>`
+}
+
+function printProperty(name: string, type: GraphQLOutputType | GraphQLInputType, description?: string | null): string {
+  return `${printDescription(description, '  ')}  ${name}${isNonNullType(type) ? '' : '?'}: ${printType(type)}`
+}
+
+export function getArgsTypeName(typeName: string, fieldName: string): string {
+  return `${typeName}${fieldName.charAt(0).toUpperCase()}${fieldName.slice(1)}Args`
+}
+
+function printArgs(typeName: string, field: GraphQLField<unknown, unknown>): string {
+  return `export interface ${getArgsTypeName(typeName, field.name)} {\n${field.args.map((arg: GraphQLArgument) => printProperty(arg.name, arg.type, arg.description)).join('\n')}\n}\n`
+}
+
+function printFieldResolverTypes(type: GraphQLObjectType | GraphQLInterfaceType, parentType: string): string[] {
+  return Object.values(type.getFields()).map((field) => {
+    const argsType = field.args.length ? getArgsTypeName(type.name, field.name) : '{}'
+    return `${printDescription(field.description, '  ')}  ${field.name}?: Resolver<DeepPartial<${printType(field.type)}>, ${parentType}, ${argsType}>`
+  })
+}
+
+function printSubscriptionResolverTypes(type: GraphQLObjectType): string[] {
+  return Object.values(type.getFields()).map((field) => {
+    const argsType = field.args.length ? getArgsTypeName(type.name, field.name) : '{}'
+    return `${printDescription(field.description, '  ')}  ${field.name}?: SubscriptionResolver<DeepPartial<${printType(field.type)}>, ${argsType}>`
+  })
+}
+
+/**
+ * Prints TypeScript types for every type of a schema, along with resolver map types that registerType and registerTypeExtension accept as their type parameter
+ */
+
+export function generateTypeScript(schema: GraphQLSchema, { scalars = {}, contextType = 'GQLContext' }: GQLCodegenOptions = {}): string {
+  const typeMap = schema.getTypeMap()
+  const types = Object.keys(typeMap).filter((name) => !name.startsWith('__')).sort().map((name) => typeMap[name])
+  const rootTypes = [schema.getQueryType(), schema.getMutationType(), schema.getSubscriptionType()]
+  const rootTypeNames = rootTypes.map((rootType) => rootType?.name)
+  const output: string[] = [header]
+
+  output.push(`export interface Scalars {\n${types.filter(isScalarType).map((scalar) => `  ${scalar.name}: ${scalars[scalar.name] ?? builtInScalars[scalar.name] ?? 'any'}`).join('\n')}\n}\n`)
+  output.push(`export type Resolver<TResult, TParent = {}, TArgs = {}> = (parent: TParent, args: TArgs, context: ${contextType}, info: GraphQLResolveInfo) => TResult | Promise<TResult>\n`)
+  output.push(`export interface SubscriptionResolver<TResult, TArgs = {}> {\n  subscribe: (parent: any, args: TArgs, context: ${contextType}, info: GraphQLResolveInfo) => AsyncIterator<any> | Promise<AsyncIterator<any>>\n  resolve?: (payload: any, args: TArgs, context: ${contextType}, info: GraphQLResolveInfo) => TResult | Promise<TResult>\n}\n`)
+  output.push(`export type TypeResolveFn<TTypes extends string, TParent = any> = (parent: TParent, context: ${contextType}, info: GraphQLResolveInfo) => TTypes | null | Promise<TTypes | null>\n`)
+  output.push(`export type IsTypeOfFn<TParent> = (parent: TParent, context: ${contextType}, info: GraphQLResolveInfo) => boolean | Promise<boolean>\n`)
+  output.push(`export type ReferenceResolver<TParent> = (reference: DeepPartial<TParent>, context: ${contextType}, info: GraphQLResolveInfo) => DeepPartial<TParent> | null | Promise<DeepPartial<TParent> | null>\n`)
+
+  types.forEach((type) => {
+    const description = printDescription(type.description)
+    if (isEnumType(type)) {
+      output.push(`${description}export type ${type.name} = ${type.getValues().map((value) => `'${value.name}'`).join(' | ')}\n`)
+    } else if (isUnionType(type)) {
+      output.push(`${description}export type ${type.name} = ${type.getTypes().map((member) => member.name).join(' | ')}\n`)
+    } else if (isInputObjectType(type)) {
+      output.push(`${description}export interface ${type.name} {\n${Object.values(type.getFields()).map((field) => printProperty(field.name, field.type, field.description)).join('\n')}\n}\n`)
+    } else if (isObjectType(type) || isInterfaceType(type)) {
+      const fields = Object.values(type.getFields())
+      const typename = isObjectType(type) ? `  __typename?: '${type.name}'\n` : ''
+      output.push(`${description}export interface ${type.name} {\n${typename}${fields.map((field) => printProperty(field.name, field.type, field.description)).join('\n')}\n}\n`)
+      fields.filter((field) => field.args.length).forEach((field) => output.push(printArgs(type.name, field)))
+    }
+  })
+
+  const typeResolvers: string[] = []
+  types.forEach((type) => {
+    if (rootTypeNames.includes(type.name)) {
+      return
+    }
+    if (isObjectType(type)) {
+      output.push(`export interface ${type.name}Resolvers {\n${[...printFieldResolverTypes(type, type.name), `  __isTypeOf?: IsTypeOfFn<${type.name}>`, `  __resolveReference?: ReferenceResolver<${type.name}>`].join('\n')}\n}\n`)
+    } else if (isInterfaceType(type)) {
+      const possibleTypes = schema.getPossibleTypes(type).map((possibleType) => `'${possibleType.name}'`).join(' | ') || 'never'
+      output.push(`export interface ${type.name}Resolvers {\n${[...printFieldResolverTypes(type, type.name), `  __resolveType?: TypeResolveFn<${possibleTypes}, ${type.name}>`].join('\n')}\n}\n`)
+    } else if (isUnionType(type)) {
+      const possibleTypes = type.getTypes().map((member) => `'${member.name}'`).join(' | ')
+      output.push(`export interface ${type.name}Resolvers {\n  __resolveType?: TypeResolveFn<${possibleTypes}, ${type.name}>\n}\n`)
+    } else if (isEnumType(type)) {
+      output.push(`export type ${type.name}Resolvers = { [K in ${type.name}]?: any }\n`)
+    } else if (isScalarType(type) && !builtInScalars[type.name]) {
+      typeResolvers.push(`  ${type.name}?: GraphQLScalarType`)
+      return
+    } else {
+      return
+    }
+    typeResolvers.push(`  ${type.name}?: ${type.name}Resolvers`)
+  })
+  output.push(`export interface TypeResolvers {\n${typeResolvers.join('\n')}\n}\n`)
+
+  const [queryType, mutationType, subscriptionType] = rootTypes
+  const rootResolvers: string[] = ['  typeResolvers: TypeResolvers']
+  if (queryType) {
+    output.push(`export interface QueryResolvers {\n${printFieldResolverTypes(queryType, '{}').join('\n')}\n}\n`)
+  }
+  if (mutationType) {
+    output.push(`export interface MutationResolvers {\n${printFieldResolverTypes(mutationType, '{}').join('\n')}\n}\n`)
+  }
+  if (subscriptionType) {
+    output.push(`export interface SubscriptionResolvers {\n${printSubscriptionResolverTypes(subscriptionType).join('\n')}\n}\n`)
+  }
+  rootResolvers.push(`  queryResolvers: ${queryType ? 'QueryResolvers' : 'Record<string, never>'}`)
+  rootResolvers.push(`  mutationResolvers: ${mutationType ? 'MutationResolvers' : 'Record<string, never>'}`)
+  rootResolvers.push(`  subscriptionResolvers: ${subscriptionType ? 'SubscriptionResolvers' : 'Record<string, never>'}`)
+  output.push(`export interface RegistryResolvers {\n${rootResolvers.join('\n')}\n}\n`)
+
+  return output.join('\n')
+}
@@ -0,0 +1,89 @@
+import { GraphQLError } from 'graphql'
+
+import { GQLRegistryProvenance } from './GQLRegistry'
+
+declare global {
+  interface GQLContext { }
+}
+
+export type GQLContextContributorFn<TRequest = unknown> = (requestInfo: TRequest, context: Partial<GQLContext>) => Partial<GQLContext> | void | Promise<Partial<GQLContext> | void>
+
+export interface GQLContextContributorOptions {
+  dependsOn?: string[]
+}
+
+export interface GQLContextContributor {
+  name: string
+  contribute(requestInfo: unknown, context: Partial<GQLContext>): ReturnType<GQLContextContributorFn>
+  dependsOn: string[]
+  provenance: GQLRegistryProvenance
+}
+
+function invalidContributorError(message: string, contributor: string): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: {
+      code: 'INVALID_CONTEXT_CONTRIBUTOR',
+      contributor,
+    },
+  })
+}
+
+/**
+ * Orders contributors so each one comes after the contributors it depends on, missing dependencies and cycles are rejected
+ */
+
+export function orderContextContributors(contributors: { [name: string]: GQLContextContributor }): GQLContextContributor[] {
+  const ordered: GQLContextContributor[] = []
+  const visiting: string[] = []
+  const visit = (name: string) => {
+    const contributor = contributors[name]
+    if (ordered.includes(contributor)) {
+      return
+    }
+    if (visiting.includes(name)) {
+      throw invalidContributorError(`Context contributors depend on each other: ${[...visiting.slice(visiting.indexOf(name)), name].join(' -> ')}`, name)
+    }
+    visiting.push(name)
+    contributor.dependsOn.forEach((dependency) => {
+      if (!contributors[dependency]) {
+        throw invalidContributorError(`Context contributor ${name} depends on ${dependency} which is not registered`, name)
+      }
+      visit(dependency)
+    })
+    visiting.pop()
+    ordered.push(contributor)
+  }
+  Object.keys(contributors).forEach(visit)
+  return ordered
+}
+
+/**
+ * Runs the contributors against a request and merges what they return into one context. A contributor starts as soon as the contributors it depends on have finished and sees the context they built. When one fails, the contributors already running are waited for before the first failure is thrown
+ */
+
+export async function runContextContributors<T extends object = GQLContext>(contributors: GQLContextContributor[], requestInfo: unknown, initialContext: Partial<T> = {}): Promise<T> {
+  const context: Partial<GQLContext> = { ...initialContext }
+  const running: { [name: string]: Promise<void> } = {}
+  for (let c = 0; c < contributors.length; c++) {
+    const { name, contribute, dependsOn } = contributors[c]
+    running[name] = Promise.all(dependsOn.map((dependency) => running[dependency])).then(async () => {
+      try {
+        Object.assign(context, await contribute(requestInfo, context))
+      } catch (err) {
+        throw new GraphQLError(`Context contributor ${name} failed: ${err instanceof Error ? err.message : err}`, {
+          originalError: err instanceof Error ? err : undefined,
+          extensions: {
+            code: 'CONTEXT_CONTRIBUTOR_ERROR',
+            contributor: name,
+          },
+        })
+      }
+    })
+  }
+  const settled = await Promise.allSettled(Object.values(running))
+  const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+  if (failure) {
+    throw failure.reason
+  }
+  return context as T
+}
@@ -0,0 +1,60 @@
+import { GQLRegistryProvenance } from './GQLRegistry'
+import { GQLContextContributor } from './GQLRegistryContext'
+
+export interface GQLDataSourceConfig<TRequest = unknown> {
+  context: Partial<GQLContext>
+  requestInfo: TRequest
+}
+
+export interface GQLDataSource {
+  initialize?(config: GQLDataSourceConfig): void | Promise<void>
+  dispose?(): void | Promise<void>
+}
+
+export type GQLDataSourceFactory<T extends GQLDataSource = GQLDataSource, TRequest = unknown> = (requestInfo: TRequest, context: Partial<GQLContext>) => T | Promise<T>
+
+export interface GQLRegisteredDataSource {
+  name: string
+  factory(requestInfo: unknown, context: Partial<GQLContext>): GQLDataSource | Promise<GQLDataSource>
+  dependsOn: string[]
+  shared: boolean
+  provenance: GQLRegistryProvenance
+}
+
+/**
+ * Turns a data source into a context contributor creating and initializing one instance per request, every instance created is handed to track so it can be disposed with the context. Shared instances are initialized for every request but never disposed
+ */
+
+export function createDataSourceContributor({ name, factory, dependsOn, shared, provenance }: GQLRegisteredDataSource, track: (dataSource: GQLDataSource) => void): GQLContextContributor {
+  return {
+    name,
+    dependsOn,
+    provenance,
+    contribute: async (requestInfo, context) => {
+      const dataSource = await factory(requestInfo, context)
+      if (!shared) {
+        track(dataSource)
+      }
+      await dataSource.initialize?.({ context, requestInfo })
+      return { [name]: dataSource }
+    },
+  }
+}
+
+/**
+ * Disposes data sources one after the other, every data source is disposed even when one of them fails and the first failure is rethrown
+ */
+
+export async function disposeDataSources(dataSources: GQLDataSource[]): Promise<void> {
+  let failure: unknown = null
+  for (let d = 0; d < dataSources.length; d++) {
+    try {
+      await dataSources[d].dispose?.()
+    } catch (err) {
+      failure = failure ?? err
+    }
+  }
+  if (failure) {
+    throw failure
+  }
+}
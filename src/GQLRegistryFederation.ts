@@ -0,0 +1,176 @@
+import { ConstDirectiveNode, DirectiveDefinitionNode, DirectiveNode, DocumentNode, FieldDefinitionNode, GraphQLResolveInfo, InterfaceTypeDefinitionNode, Kind, ObjectTypeDefinitionNode, OperationDefinitionNode, SchemaExtensionNode, SelectionSetNode, TypeDefinitionNode, parse, visit } from 'graphql'
+
+export interface GQLRegistryEntityConfig {
+  keys?: string | string[]
+  resolvable?: boolean
+  shareable?: boolean
+  resolveReference?: (reference: any, context: GQLContext, info: GraphQLResolveInfo) => any
+}
+
+export const FEDERATION_SPEC_URL = 'https://specs.apollo.dev/federation/v2.0'
+
+export const FEDERATION_DIRECTIVES = [
+  'key',
+  'shareable',
+  'external',
+  'requires',
+  'provides',
+  'override',
+  'inaccessible',
+  'tag',
+  'extends',
+]
+
+type EntityTypeNode = ObjectTypeDefinitionNode | InterfaceTypeDefinitionNode
+
+function isEntityTypeNode(definition: TypeDefinitionNode): definition is EntityTypeNode {
+  return definition.kind === Kind.OBJECT_TYPE_DEFINITION || definition.kind === Kind.INTERFACE_TYPE_DEFINITION
+}
+
+function createDirective(name: string, args: { [k: string]: string | boolean } = {}): ConstDirectiveNode {
+  return {
+    kind: Kind.DIRECTIVE,
+    name: { kind: Kind.NAME, value: name },
+    arguments: Object.keys(args).map((argName) => ({
+      kind: Kind.ARGUMENT,
+      name: { kind: Kind.NAME, value: argName },
+      value: typeof args[argName] === 'boolean'
+        ? { kind: Kind.BOOLEAN, value: args[argName] as boolean }
+        : { kind: Kind.STRING, value: args[argName] as string },
+    })),
+  }
+}
+
+function getKeyFields(directive: DirectiveNode): string | null {
+  const fields = directive.arguments?.find((arg) => arg.name.value === 'fields')?.value
+  return fields?.kind === Kind.STRING ? fields.value : null
+}
+
+export function getEntityKeys(config: GQLRegistryEntityConfig): string[] {
+  if (!config.keys) {
+    return []
+  }
+  return Array.isArray(config.keys) ? config.keys : [config.keys]
+}
+
+/**
+ * Adds the @link to the federation spec plus any @key and @shareable directives declared through registerType
+ */
+
+export function applyFederationDirectives(document: DocumentNode, entities: { [typeName: string]: GQLRegistryEntityConfig }): DocumentNode {
+  const definitions = document.definitions.map((definition) => {
+    if (!('name' in definition) || !definition.name || !entities[definition.name.value] || !isEntityTypeNode(definition as TypeDefinitionNode)) {
+      return definition
+    }
+    const entity = entities[definition.name.value]
+    const typeDefinition = definition as EntityTypeNode
+    const directives = [...(typeDefinition.directives ?? [])]
+    const existingKeys = directives.filter((directive) => directive.name.value === 'key').map(getKeyFields)
+    getEntityKeys(entity).forEach((fields) => {
+      if (!existingKeys.includes(fields)) {
+        directives.push(createDirective('key', entity.resolvable === false ? { fields, resolvable: false } : { fields }))
+      }
+    })
+    if (entity.shareable && !directives.find((directive) => directive.name.value === 'shareable')) {
+      directives.push(createDirective('shareable'))
+    }
+    return { ...typeDefinition, directives }
+  })
+  const hasFederationLink = definitions.find((definition) => {
+    return definition.kind === Kind.SCHEMA_EXTENSION && definition.directives?.find((directive) => {
+      const url = directive.arguments?.find((arg) => arg.name.value === 'url')?.value
+      return directive.name.value === 'link' && url?.kind === Kind.STRING && url.value.startsWith('https://specs.apollo.dev/federation/')
+    })
+  })
+  if (!hasFederationLink) {
+    const link: SchemaExtensionNode = (parse(`extend schema @link(url: "${FEDERATION_SPEC_URL}", import: [${FEDERATION_DIRECTIVES.map((name) => `"@${name}"`).join(', ')}])`).definitions[0] as SchemaExtensionNode)
+    definitions.unshift(link)
+  }
+  return { ...document, definitions }
+}
+
+/**
+ * Removes the federation directives the document uses without declaring them, so SDL written for a subgraph also builds outside of federation
+ */
+
+export function stripFederationDirectives(document: DocumentNode): DocumentNode {
+  const declared = document.definitions.filter((definition): definition is DirectiveDefinitionNode => definition.kind === Kind.DIRECTIVE_DEFINITION).map((definition) => definition.name.value)
+  const stripped = FEDERATION_DIRECTIVES.filter((name) => !declared.includes(name))
+  return visit(document, {
+    Directive(node) {
+      return stripped.includes(node.name.value) ? null : undefined
+    },
+  })
+}
+
+function validateSelection(selectionSet: SelectionSetNode, typeName: string, types: { [k: string]: TypeDefinitionNode }, errors: string[], context: string): void {
+  const type = types[typeName]
+  const fields: readonly FieldDefinitionNode[] = type && 'fields' in type ? (type.fields as FieldDefinitionNode[] ?? []) : []
+  selectionSet.selections.forEach((selection) => {
+    if (selection.kind !== Kind.FIELD) {
+      return
+    }
+    const field = fields.find((def) => def.name.value === selection.name.value)
+    if (!field) {
+      errors.push(`${context} references unknown field ${typeName}.${selection.name.value}`)
+      return
+    }
+    if (selection.selectionSet) {
+      let fieldType = field.type
+      while (fieldType.kind !== Kind.NAMED_TYPE) {
+        fieldType = fieldType.type
+      }
+      validateSelection(selection.selectionSet, fieldType.name.value, types, errors, context)
+    }
+  })
+}
+
+/**
+ * Checks the federation usage of a document before it is built as a subgraph, returning a list of problems
+ */
+
+export function validateFederation(document: DocumentNode, resolvers: { [k: string]: any }, entities: { [typeName: string]: GQLRegistryEntityConfig }): string[] {
+  const errors: string[] = []
+  const types: { [k: string]: TypeDefinitionNode } = {}
+  document.definitions.forEach((definition) => {
+    if ('name' in definition && definition.name && definition.kind !== Kind.DIRECTIVE_DEFINITION && definition.kind.endsWith('TypeDefinition')) {
+      types[definition.name.value] = definition as TypeDefinitionNode
+    }
+    if (definition.kind === Kind.DIRECTIVE_DEFINITION && FEDERATION_DIRECTIVES.includes(definition.name.value)) {
+      errors.push(`Directive @${definition.name.value} is provided by the federation spec and must not be registered`)
+    }
+  })
+  Object.keys(entities).forEach((typeName: string) => {
+    const type = types[typeName]
+    if (!type) {
+      errors.push(`Entity ${typeName} is not a registered type`)
+    } else if (!isEntityTypeNode(type)) {
+      errors.push(`Entity ${typeName} must be an object or interface type`)
+    }
+  })
+  Object.keys(types).forEach((typeName: string) => {
+    const type = types[typeName]
+    const keys = (type.directives ?? []).filter((directive) => directive.name.value === 'key')
+    if (keys.length && !isEntityTypeNode(type)) {
+      errors.push(`@key can only be used on object and interface types, found on ${typeName}`)
+      return
+    }
+    keys.forEach((directive) => {
+      const fields = getKeyFields(directive)
+      if (!fields) {
+        errors.push(`@key on ${typeName} must declare its fields as a string`)
+        return
+      }
+      try {
+        const { selectionSet } = parse(`{ ${fields} }`).definitions[0] as OperationDefinitionNode
+        validateSelection(selectionSet, typeName, types, errors, `@key(fields: "${fields}") on ${typeName}`)
+      } catch (err) {
+        errors.push(`@key(fields: "${fields}") on ${typeName} is not a valid selection set`)
+      }
+    })
+    if (resolvers[typeName]?.__resolveReference && !keys.length) {
+      errors.push(`${typeName} has a __resolveReference resolver but does not declare a @key`)
+    }
+  })
+  return errors
+}
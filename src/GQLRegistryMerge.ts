@@ -0,0 +1,91 @@
+import { GraphQLError, GraphQLSchema, Kind, OperationDefinitionNode, parse } from 'graphql'
+
+import { MergedTypeConfig } from '@graphql-tools/delegate'
+
+export interface GQLRegistryMergeConfig {
+  selectionSet: string
+  fieldName?: string
+  argName?: string
+  batch?: boolean
+  canonical?: boolean
+  args?: (originalObject: { [fieldName: string]: unknown }) => { [name: string]: unknown }
+  key?: (originalObject: { [fieldName: string]: unknown }) => unknown
+  argsFromKeys?: (keys: readonly unknown[]) => { [name: string]: unknown }
+}
+
+export type GQLRegistryMergeConfigMap = { [typeName: string]: GQLRegistryMergeConfig }
+
+function mergeConfigError(message: string, owner: string, typeName: string): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: {
+      code: 'INVALID_MERGE_CONFIG',
+      owner,
+      typeName,
+    },
+  })
+}
+
+/**
+ * Accepts a key selection set with or without its braces, such as "id" or "{ id }"
+ */
+
+export function normalizeSelectionSet(selectionSet: string): string {
+  const trimmed = selectionSet.trim()
+  return trimmed.startsWith('{') ? trimmed : `{ ${trimmed} }`
+}
+
+export function getKeyFieldNames(selectionSet: string): string[] {
+  const operation = parse(normalizeSelectionSet(selectionSet)).definitions[0] as OperationDefinitionNode
+  return operation.selectionSet.selections.map((selection) => selection.kind === Kind.FIELD ? selection.name.value : '').filter((name) => !!name)
+}
+
+/**
+ * Turns the merge config of a type into the stitching config, arguments are derived from the key fields unless args, key or argsFromKeys are given
+ */
+
+export function createMergedTypeConfig(typeName: string, config: GQLRegistryMergeConfig, schema: GraphQLSchema, owner: string): MergedTypeConfig {
+  if (!schema.getType(typeName)) {
+    throw mergeConfigError(`Merge config of ${owner} references ${typeName} which is not part of its schema`, owner, typeName)
+  }
+  const { fieldName, argName, batch, canonical } = config
+  const selectionSet = normalizeSelectionSet(config.selectionSet)
+  const keyFields = getKeyFieldNames(selectionSet)
+  const mergedType: MergedTypeConfig = { selectionSet, canonical }
+  if (!fieldName) {
+    return mergedType
+  }
+  const field = schema.getQueryType()?.getFields()[fieldName]
+  if (!field) {
+    throw mergeConfigError(`Merge config of ${owner} for ${typeName} uses Query.${fieldName} which is not part of its schema`, owner, typeName)
+  }
+  const pickKeyFields = (originalObject: { [fieldName: string]: unknown }) => {
+    const key: { [name: string]: unknown } = {}
+    keyFields.forEach((name) => {
+      key[name] = originalObject[name]
+    })
+    return key
+  }
+  const pickKey = (originalObject: { [fieldName: string]: unknown }) => keyFields.length === 1 ? originalObject[keyFields[0]] : pickKeyFields(originalObject)
+  if (batch) {
+    const keysArgName = argName ?? (keyFields.length === 1 ? `${keyFields[0]}s` : 'keys')
+    return {
+      ...mergedType,
+      fieldName,
+      key: config.key ?? pickKey,
+      argsFromKeys: config.argsFromKeys ?? ((keys) => ({ [keysArgName]: keys })),
+    }
+  }
+  return {
+    ...mergedType,
+    fieldName,
+    args: config.args ?? ((originalObject) => argName ? { [argName]: pickKey(originalObject) } : pickKeyFields(originalObject)),
+  }
+}
+
+export function createMergeConfig(configs: GQLRegistryMergeConfigMap, schema: GraphQLSchema, owner: string): { [typeName: string]: MergedTypeConfig } {
+  const merge: { [typeName: string]: MergedTypeConfig } = {}
+  Object.keys(configs).forEach((typeName: string) => {
+    merge[typeName] = createMergedTypeConfig(typeName, configs[typeName], schema, owner)
+  })
+  return merge
+}
@@ -0,0 +1,64 @@
+import { defaultFieldResolver, GraphQLError, GraphQLFieldResolver, GraphQLResolveInfo, GraphQLSchema, isObjectType } from 'graphql'
+
+import { MapperKind, mapSchema } from '@graphql-tools/utils'
+
+import { GQLRegistryProvenance } from './GQLRegistry'
+
+export type GQLResolverMiddleware<TContext = GQLContext> = (resolve: GraphQLFieldResolver<any, TContext>, parent: any, args: { [argName: string]: any }, context: TContext, info: GraphQLResolveInfo) => unknown
+
+export interface GQLRegisteredMiddleware {
+  pattern: string
+  middleware: GQLResolverMiddleware<any>
+  provenance: GQLRegistryProvenance
+}
+
+const patternFormat = /^[_A-Za-z0-9*]+\.[_A-Za-z0-9*]+$/
+
+function compileName(pattern: string): RegExp {
+  const source = pattern.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[_A-Za-z0-9]*')
+  return new RegExp(`^${pattern.startsWith('*') ? '(?!_)' : ''}${source}$`)
+}
+
+/**
+ * Compiles a `Type.field` pattern where `*` matches any part of a name. As with hidden files in shell globs, a name starting with an underscore such as `_service` is only matched by a pattern starting with one
+ */
+
+export function createFieldMatcher(pattern: string): (typeName: string, fieldName: string) => boolean {
+  if (!patternFormat.test(pattern)) {
+    throw new GraphQLError(`Middleware pattern ${pattern} should have the form Type.field, for example Query.* or Mutation.create*`, {
+      extensions: {
+        code: 'INVALID_MIDDLEWARE_PATTERN',
+        pattern,
+      },
+    })
+  }
+  const [typePattern, fieldPattern] = pattern.split('.').map(compileName)
+  return (typeName: string, fieldName: string) => typePattern.test(typeName) && fieldPattern.test(fieldName)
+}
+
+/**
+ * Wraps the resolver of every object field matched by a middleware, the middleware registered first runs outermost. Fields without a resolver are wrapped around the default resolver, fields also defined by the `wrapped` schema are skipped as their resolvers were wrapped there
+ */
+
+export function applyMiddleware(schema: GraphQLSchema, middlewares: GQLRegisteredMiddleware[], wrapped?: GraphQLSchema): GraphQLSchema {
+  if (!middlewares.length) {
+    return schema
+  }
+  const matchers = middlewares.map(({ pattern, middleware }) => ({ matches: createFieldMatcher(pattern), middleware }))
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, fieldName, typeName) => {
+      const wrappedType = wrapped?.getType(typeName)
+      const matched = matchers.filter(({ matches }) => matches(typeName, fieldName))
+      if (!matched.length || (isObjectType(wrappedType) && wrappedType.getFields()[fieldName])) {
+        return fieldConfig
+      }
+      let resolve: GraphQLFieldResolver<unknown, unknown> = fieldConfig.resolve ?? defaultFieldResolver
+      for (let m = matched.length - 1; m >= 0; m--) {
+        const { middleware } = matched[m]
+        const next = resolve
+        resolve = (parent, args, context, info) => middleware(next, parent, args, context, info)
+      }
+      return { ...fieldConfig, resolve }
+    },
+  })
+}
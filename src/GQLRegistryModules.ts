@@ -0,0 +1,91 @@
+import fs from 'fs'
+import path from 'path'
+
+export type GQLRegistryModuleKind = 'sdl' | 'schema' | 'resolvers' | 'plugin' | 'module'
+
+export type GQLRegistryModuleFilter = RegExp | RegExp[] | ((file: string) => boolean)
+
+export interface LoadModulesArgs {
+  directory: string
+  include?: GQLRegistryModuleFilter
+  exclude?: GQLRegistryModuleFilter
+}
+
+export interface GQLRegistryModuleFile {
+  file: string
+  relativePath: string
+  kind: GQLRegistryModuleKind
+}
+
+const moduleKindOrder: GQLRegistryModuleKind[] = ['sdl', 'schema', 'resolvers', 'plugin', 'module']
+
+export const defaultModuleInclude = /((schema|resolvers?|plugins?)[^/\\]*\.(ts|js|cjs)|\.(graphql|gql))$/i
+
+export const defaultModuleExclude = [
+  /(^|[/\\])node_modules([/\\]|$)/,
+  /\.d\.ts$/,
+  /\.(test|spec)\.(ts|js|cjs)$/,
+]
+
+function matchesFilter(filter: GQLRegistryModuleFilter, file: string): boolean {
+  if (typeof filter === 'function') {
+    return filter(file)
+  }
+  const patterns = Array.isArray(filter) ? filter : [filter]
+  return !!patterns.find((pattern) => pattern.test(file))
+}
+
+export function isModuleIncluded(relativePath: string, { include = defaultModuleInclude, exclude = defaultModuleExclude }: Omit<LoadModulesArgs, 'directory'>): boolean {
+  return matchesFilter(include, relativePath) && !matchesFilter(exclude, relativePath)
+}
+
+export function getModuleKind(file: string): GQLRegistryModuleKind {
+  const name = path.basename(file)
+  if (/\.(graphql|gql)$/i.test(name)) {
+    return 'sdl'
+  }
+  if (/plugins?/i.test(name)) {
+    return 'plugin'
+  }
+  if (/resolvers?/i.test(name)) {
+    return 'resolvers'
+  }
+  if (/schema/i.test(name)) {
+    return 'schema'
+  }
+  return 'module'
+}
+
+function walkDirectory(directory: string): string[] {
+  const files: string[] = []
+  const entries = fs.readdirSync(directory, { withFileTypes: true })
+  for (let e = 0; e < entries.length; e++) {
+    const entry = entries[e]
+    const fullPath = path.join(directory, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...walkDirectory(fullPath))
+    } else if (entry.isFile()) {
+      files.push(fullPath)
+    }
+  }
+  return files
+}
+
+/**
+ * Finds every module under a directory in load order, SDL files first followed by schema, resolver, plugin and any other included modules, sorted by path within each group
+ */
+
+export function discoverModules({ directory, include, exclude }: LoadModulesArgs): GQLRegistryModuleFile[] {
+  const root = path.resolve(directory)
+  return walkDirectory(root)
+    .map((file) => ({ file, relativePath: path.relative(root, file).split(path.sep).join('/') }))
+    .filter(({ relativePath }) => isModuleIncluded(relativePath, { include, exclude }))
+    .map(({ file, relativePath }) => ({ file, relativePath, kind: getModuleKind(file) }))
+    .sort((a, b) => {
+      const kindOrder = moduleKindOrder.indexOf(a.kind) - moduleKindOrder.indexOf(b.kind)
+      if (kindOrder !== 0) {
+        return kindOrder
+      }
+      return a.relativePath < b.relativePath ? -1 : a.relativePath > b.relativePath ? 1 : 0
+    })
+}
@@ -0,0 +1,108 @@
+import { ASTNode, FieldDefinitionNode, Kind, visit } from 'graphql'
+
+import { GQLRegistryConflictKind } from './GQLRegistry'
+
+export interface GQLRegistryMountOptions {
+  typePrefix?: string
+  rootFieldPrefix?: string
+  source?: string
+}
+
+export interface GQLRegistryMountCollision {
+  kind: GQLRegistryConflictKind | 'dataSource' | 'internalValue' | 'policy' | 'remoteSchema'
+  coordinate: string
+  detail: string
+}
+
+const rootTypeNames = ['Query', 'Mutation', 'Subscription']
+
+const renamedNodeKinds: string[] = [
+  Kind.NAMED_TYPE,
+  Kind.SCALAR_TYPE_DEFINITION,
+  Kind.OBJECT_TYPE_DEFINITION,
+  Kind.INTERFACE_TYPE_DEFINITION,
+  Kind.UNION_TYPE_DEFINITION,
+  Kind.ENUM_TYPE_DEFINITION,
+  Kind.INPUT_OBJECT_TYPE_DEFINITION,
+  Kind.SCALAR_TYPE_EXTENSION,
+  Kind.OBJECT_TYPE_EXTENSION,
+  Kind.INTERFACE_TYPE_EXTENSION,
+  Kind.UNION_TYPE_EXTENSION,
+  Kind.ENUM_TYPE_EXTENSION,
+  Kind.INPUT_OBJECT_TYPE_EXTENSION,
+]
+
+/**
+ * Returns a function prefixing the given type names, any other name such as root types, built in scalars or types owned by another registry is left untouched
+ */
+
+export function createTypeRenamer(typeNames: string[], prefix = ''): (typeName: string) => string {
+  return (typeName: string) => {
+    if (!prefix || rootTypeNames.includes(typeName) || !typeNames.includes(typeName)) {
+      return typeName
+    }
+    return `${prefix}${typeName}`
+  }
+}
+
+/**
+ * Renames the type definitions, type extensions and type references of a node
+ */
+
+export function renameTypesInNode<T extends ASTNode>(node: T, rename: (typeName: string) => string): T {
+  return visit(node, {
+    enter(current) {
+      if (!renamedNodeKinds.includes(current.kind) || !('name' in current) || !current.name) {
+        return undefined
+      }
+      const typeName = current.name.value
+      if (rename(typeName) === typeName) {
+        return undefined
+      }
+      return { ...current, name: { ...current.name, value: rename(typeName) } }
+    },
+  }) as T
+}
+
+export function renameRootFields(fields: FieldDefinitionNode[], rename: (typeName: string) => string, prefix = ''): FieldDefinitionNode[] {
+  return fields.map((field) => {
+    const renamed = renameTypesInNode(field, rename)
+    if (!prefix) {
+      return renamed
+    }
+    return { ...renamed, name: { ...renamed.name, value: `${prefix}${renamed.name.value}` } }
+  })
+}
+
+export function prefixKeys<T>(map: { [k: string]: T }, prefix = ''): { [k: string]: T } {
+  const prefixed: { [k: string]: T } = {}
+  Object.keys(map).forEach((key: string) => {
+    prefixed[`${prefix}${key}`] = map[key]
+  })
+  return prefixed
+}
+
+/**
+ * Renames the keys of a type resolver map, __resolveType functions are wrapped so the type names they return are renamed too
+ */
+
+export function renameTypeResolvers(resolvers: { [k: string]: any }, rename: (typeName: string) => string): { [k: string]: any } {
+  const renamed: { [k: string]: any } = {}
+  Object.keys(resolvers).forEach((typeName: string) => {
+    const resolver = resolvers[typeName]
+    const resolveType = resolver?.__resolveType
+    if (typeof resolveType === 'function' && rename(typeName) !== typeName) {
+      const renameResult = (result: unknown) => typeof result === 'string' ? rename(result) : result
+      renamed[rename(typeName)] = {
+        ...resolver,
+        __resolveType: (...args: unknown[]) => {
+          const result = resolveType(...args)
+          return result instanceof Promise ? result.then(renameResult) : renameResult(result)
+        },
+      }
+    } else {
+      renamed[rename(typeName)] = resolver
+    }
+  })
+  return renamed
+}
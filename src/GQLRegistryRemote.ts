@@ -0,0 +1,461 @@
+import fs from 'fs'
+import http from 'http'
+import https from 'https'
+import path from 'path'
+
+import { camelCase, constantCase, pascalCase, snakeCase } from 'change-case'
+import { buildClientSchema, buildSchema, getIntrospectionQuery, getNullableType, getOperationAST, GraphQLError, GraphQLFieldConfigArgumentMap, GraphQLInputType, GraphQLObjectType, GraphQLSchema, IntrospectionQuery, isInputObjectType, isListType, Kind, OperationTypeNode, parse, print, printSchema, typeFromAST } from 'graphql'
+import { createClient } from 'graphql-ws'
+import WebSocket from 'ws'
+
+import { AsyncExecutor, ExecutionRequest, ExecutionResult } from '@graphql-tools/utils'
+import { RenameInputObjectFields, RenameInterfaceFields, RenameObjectFields, RenameRootFields, RenameRootTypes, RenameTypes, TransformCompositeFields, WrapType } from '@graphql-tools/wrap'
+
+export type GQLRemoteSchemaLoader = 'introspection' | 'sdl'
+
+export type GQLRemoteHeaders = { [name: string]: string } | ((context: GQLContext | undefined) => { [name: string]: string })
+
+export type GQLRemoteFailurePolicy = 'required' | 'skip' | 'cache'
+
+export type GQLRemoteSchemaStatus = 'loaded' | 'skipped' | 'cached' | 'failed'
+
+export interface GQLRemoteSchemaHealth {
+  name: string
+  status: GQLRemoteSchemaStatus
+  checkedAt: Date
+  loadedAt?: Date
+  error?: Error
+}
+
+export type GQLRemoteNameCase = 'none' | 'camelCase' | 'pascalCase' | 'snakeCase' | 'constantCase'
+
+export interface GQLRemoteNamingOptions {
+  types?: GQLRemoteNameCase
+  fields?: GQLRemoteNameCase
+  arguments?: GQLRemoteNameCase
+  typePrefix?: string
+  rootFieldPrefix?: string
+  renameType?: (typeName: string) => string
+  renameField?: (typeName: string, fieldName: string) => string
+  renameArgument?: (typeName: string, fieldName: string, argumentName: string) => string
+}
+
+export type GQLRemoteNaming = 'default' | 'none' | GQLRemoteNamingOptions
+
+export interface GQLRemoteNamespaceOptions {
+  field: string
+  queryType?: string
+  mutationType?: string
+  mutations?: boolean
+}
+
+export type GQLRemoteNamespace = string | GQLRemoteNamespaceOptions
+
+interface NamingDefaults {
+  renameType: (typeName: string) => string
+  renameField: (fieldName: string) => string
+}
+
+export interface GQLWebSocketExecutorOptions {
+  url: string
+  connectionParams?: { [k: string]: unknown } | (() => { [k: string]: unknown } | Promise<{ [k: string]: unknown }>)
+  retryAttempts?: number
+}
+
+export interface GQLWebSocketTransport {
+  executor: AsyncExecutor
+  dispose: () => Promise<void>
+}
+
+export interface GQLHttpExecutorOptions {
+  url: string
+  headers?: GQLRemoteHeaders
+  forwardHeaders?: string[]
+  timeout?: number
+}
+
+const defaultTimeout = 30000
+
+function getProperty(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null ? (value as { [key: string]: unknown })[key] : undefined
+}
+
+/**
+ * Reads a header from the incoming request carried by the GraphQL context, either as context.req (express, koa, http) or context.headers
+ */
+
+function getContextHeader(context: unknown, name: string): string | undefined {
+  const headers = getProperty(getProperty(context, 'req'), 'headers') ?? getProperty(getProperty(context, 'request'), 'headers') ?? getProperty(context, 'headers')
+  if (!headers) {
+    return undefined
+  }
+  const get = getProperty(headers, 'get')
+  const value: unknown = typeof get === 'function' ? get.call(headers, name) : getProperty(headers, name.toLowerCase()) ?? getProperty(headers, name)
+  if (Array.isArray(value)) {
+    return value.join(', ')
+  }
+  return typeof value === 'string' ? value : undefined
+}
+
+function remoteError(message: string, url: string, code: string, originalError?: Error): GraphQLError {
+  return new GraphQLError(message, {
+    originalError,
+    extensions: {
+      code,
+      url,
+    },
+  })
+}
+
+/**
+ * Posts a GraphQL operation to a remote service and resolves with the parsed JSON response
+ */
+
+export function postGraphQL<TData = Record<string, unknown>>(url: string, body: { [k: string]: unknown }, headers: { [name: string]: string } = {}, timeout = defaultTimeout): Promise<ExecutionResult<TData>> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url)
+    const payload = JSON.stringify(body)
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: {
+        accept: 'application/graphql-response+json, application/json',
+        'content-type': 'application/json',
+        'content-length': Buffer.byteLength(payload).toString(),
+        ...headers,
+      },
+    }, (response) => {
+      const chunks: Buffer[] = []
+      response.on('data', (chunk: Buffer) => chunks.push(chunk))
+      response.on('error', (err) => reject(remoteError(`Request to ${url} failed: ${err.message}`, url, 'REMOTE_REQUEST_FAILED', err)))
+      response.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8')
+        let result: ExecutionResult<TData>
+        try {
+          result = JSON.parse(text)
+        } catch (err) {
+          reject(remoteError(`Remote ${url} responded with status ${response.statusCode} and a body that is not JSON`, url, 'REMOTE_REQUEST_FAILED'))
+          return
+        }
+        if ((response.statusCode ?? 500) >= 400 && !result?.data && !result?.errors) {
+          reject(remoteError(`Remote ${url} responded with status ${response.statusCode}`, url, 'REMOTE_REQUEST_FAILED'))
+          return
+        }
+        resolve(result)
+      })
+    })
+    request.setTimeout(timeout, () => {
+      request.destroy(remoteError(`Request to ${url} timed out after ${timeout}ms`, url, 'REMOTE_TIMEOUT'))
+    })
+    request.on('error', (err) => {
+      reject(err instanceof GraphQLError ? err : remoteError(`Request to ${url} failed: ${err.message}`, url, 'REMOTE_REQUEST_FAILED', err))
+    })
+    request.end(payload)
+  })
+}
+
+/**
+ * Creates an executor sending operations to a remote GraphQL endpoint over HTTP, static headers are sent with every request while forwarded headers are copied from the request in the GraphQL context
+ */
+
+export function createHttpExecutor({ url, headers = {}, forwardHeaders = [], timeout = defaultTimeout }: GQLHttpExecutorOptions): AsyncExecutor {
+  return async <TReturn>({ document, variables, operationName, context }: ExecutionRequest) => {
+    const requestHeaders: { [name: string]: string } = typeof headers === 'function' ? { ...headers(context) } : { ...headers }
+    forwardHeaders.forEach((name) => {
+      const value = getContextHeader(context, name)
+      if (value !== undefined) {
+        requestHeaders[name.toLowerCase()] = value
+      }
+    })
+    return postGraphQL<TReturn>(url, { query: print(document), variables, operationName }, requestHeaders, timeout)
+  }
+}
+
+/**
+ * Creates an executor streaming subscriptions from a remote over a WebSocket speaking the graphql-ws protocol, the connection is opened with the first subscription and closed after the last one ends
+ */
+
+export function createWebSocketExecutor({ url, connectionParams, retryAttempts }: GQLWebSocketExecutorOptions): GQLWebSocketTransport {
+  const client = createClient({
+    url,
+    connectionParams,
+    retryAttempts,
+    lazy: true,
+    webSocketImpl: WebSocket,
+  })
+  return {
+    executor: async <TReturn>({ document, variables, operationName, extensions }: ExecutionRequest) => client.iterate<TReturn, Record<string, unknown>>({
+      query: print(document),
+      variables,
+      operationName,
+      extensions,
+    }),
+    dispose: async () => {
+      await client.dispose()
+    },
+  }
+}
+
+/**
+ * Sends subscription operations to the subscription executor and every other operation to the executor
+ */
+
+export function routeSubscriptions(executor: AsyncExecutor, subscriptionExecutor: AsyncExecutor): AsyncExecutor {
+  return async (request) => {
+    const operation = request.operationType ?? getOperationAST(request.document, request.operationName)?.operation
+    return operation === OperationTypeNode.SUBSCRIPTION ? subscriptionExecutor(request) : executor(request)
+  }
+}
+
+/**
+ * Loads the schema of a remote service through its executor, either by running the introspection query or by reading the SDL a federated service exposes on _service
+ */
+
+export async function loadRemoteSchema(executor: AsyncExecutor, loader: GQLRemoteSchemaLoader = 'introspection', name = 'remote'): Promise<GraphQLSchema> {
+  const query = loader === 'sdl' ? '{ _service { sdl } }' : getIntrospectionQuery()
+  const result = await executor({ document: parse(query) }) as ExecutionResult
+  if (result?.errors?.length || !result?.data) {
+    throw new GraphQLError(`Failed to load the schema of remote ${name}: ${result?.errors?.map((err) => err.message).join(', ') ?? 'empty response'}`, {
+      extensions: {
+        code: 'REMOTE_SCHEMA_LOAD_FAILED',
+        remote: name,
+        errors: result?.errors,
+      },
+    })
+  }
+  if (loader === 'sdl') {
+    return buildSchema((result.data as { _service: { sdl: string } })._service.sdl, { assumeValidSDL: true })
+  }
+  return buildClientSchema(result.data as unknown as IntrospectionQuery)
+}
+
+/**
+ * Reads the last known SDL of a remote from its cache file, resolving with null when there is no cache
+ */
+
+export async function readCachedSchema(file: string): Promise<GraphQLSchema | null> {
+  let sdl: string
+  try {
+    sdl = await fs.promises.readFile(file, 'utf8')
+  } catch (err) {
+    return null
+  }
+  return buildSchema(sdl, { assumeValidSDL: true })
+}
+
+export async function writeCachedSchema(file: string, schema: GraphQLSchema): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true })
+  await fs.promises.writeFile(file, printSchema(schema), 'utf8')
+}
+
+const nameCases: { [nameCase: string]: (name: string) => string } = {
+  camelCase,
+  pascalCase,
+  snakeCase,
+  constantCase,
+}
+
+function applyNameCase(name: string, nameCase: GQLRemoteNameCase | undefined, fallback: (name: string) => string): string {
+  if (!nameCase) {
+    return fallback(name)
+  }
+  return nameCase === 'none' ? name : nameCases[nameCase](name)
+}
+
+/**
+ * Renames the arguments of object and interface fields, argument names in delegated requests are mapped back to the names of the remote schema
+ */
+
+class RenameFieldArguments {
+
+  private reverseMap: { [typeName: string]: { [fieldName: string]: { [argumentName: string]: string } } } = {}
+  private transformer: TransformCompositeFields
+
+  constructor(renamer: (typeName: string, fieldName: string, argumentName: string) => string) {
+    this.transformer = new TransformCompositeFields((typeName, fieldName, fieldConfig) => {
+      const fieldArgs = fieldConfig.args
+      if (!fieldArgs) {
+        return undefined
+      }
+      const args: GraphQLFieldConfigArgumentMap = {}
+      Object.keys(fieldArgs).forEach((argumentName: string) => {
+        const renamed = renamer(typeName, fieldName, argumentName)
+        args[renamed] = fieldArgs[argumentName]
+        if (renamed !== argumentName) {
+          this.reverseMap[typeName] = this.reverseMap[typeName] ?? {}
+          this.reverseMap[typeName][fieldName] = this.reverseMap[typeName][fieldName] ?? {}
+          this.reverseMap[typeName][fieldName][renamed] = argumentName
+        }
+      })
+      return { ...fieldConfig, args }
+    }, (typeName, fieldName, fieldNode) => {
+      const renamed = this.reverseMap[typeName]?.[fieldName]
+      if (!renamed || !fieldNode.arguments?.length) {
+        return fieldNode
+      }
+      return {
+        ...fieldNode,
+        arguments: fieldNode.arguments.map((arg) => renamed[arg.name.value] ? { ...arg, name: { ...arg.name, value: renamed[arg.name.value] } } : arg),
+      }
+    })
+  }
+
+  transformSchema(...args: Parameters<TransformCompositeFields['transformSchema']>): GraphQLSchema {
+    return this.transformer.transformSchema(...args)
+  }
+
+  transformRequest(...args: Parameters<TransformCompositeFields['transformRequest']>): ReturnType<TransformCompositeFields['transformRequest']> {
+    return this.transformer.transformRequest(...args)
+  }
+
+  transformResult(...args: Parameters<TransformCompositeFields['transformResult']>): ReturnType<TransformCompositeFields['transformResult']> {
+    return this.transformer.transformResult(...args)
+  }
+
+}
+
+/**
+ * Renames the fields of input object types, the values of variables sent with a delegated request are mapped back to the field names of the remote schema as well as inline values
+ */
+
+class RenameInputFields {
+
+  private schema: GraphQLSchema | null = null
+  private reverseMap: { [typeName: string]: { [fieldName: string]: string } } = {}
+  private transformer: RenameInputObjectFields
+
+  constructor(renamer: (typeName: string, fieldName: string) => string) {
+    this.transformer = new RenameInputObjectFields((typeName, fieldName) => {
+      const renamed = renamer(typeName, fieldName)
+      if (renamed !== fieldName) {
+        this.reverseMap[typeName] = this.reverseMap[typeName] ?? {}
+        this.reverseMap[typeName][renamed] = fieldName
+      }
+      return renamed
+    })
+  }
+
+  transformSchema(...args: Parameters<RenameInputObjectFields['transformSchema']>): GraphQLSchema {
+    this.schema = args[0]
+    return this.transformer.transformSchema(...args)
+  }
+
+  transformRequest(...args: Parameters<RenameInputObjectFields['transformRequest']>): ReturnType<RenameInputObjectFields['transformRequest']> {
+    const request = this.transformer.transformRequest(...args)
+    const { schema } = this
+    if (!request.variables || !schema) {
+      return request
+    }
+    const variables = { ...request.variables }
+    request.document.definitions.forEach((definition) => {
+      if (definition.kind !== Kind.OPERATION_DEFINITION) {
+        return
+      }
+      definition.variableDefinitions?.forEach((variableDefinition) => {
+        const name = variableDefinition.variable.name.value
+        if (name in variables) {
+          variables[name] = this.renameValue(typeFromAST(schema, variableDefinition.type) as GraphQLInputType | undefined, variables[name])
+        }
+      })
+    })
+    return { ...request, variables }
+  }
+
+  private renameValue(type: GraphQLInputType | undefined, value: unknown): unknown {
+    if (value === null || value === undefined || !type) {
+      return value
+    }
+    const nullableType = getNullableType(type)
+    if (isListType(nullableType)) {
+      return Array.isArray(value) ? value.map((item) => this.renameValue(nullableType.ofType, item)) : this.renameValue(nullableType.ofType, value)
+    }
+    if (!isInputObjectType(nullableType) || typeof value !== 'object') {
+      return value
+    }
+    const originalNames = this.reverseMap[nullableType.name] ?? {}
+    const fields = nullableType.getFields()
+    const renamed: { [fieldName: string]: unknown } = {}
+    Object.entries(value).forEach(([fieldName, fieldValue]) => {
+      const originalName = originalNames[fieldName] ?? fieldName
+      renamed[originalName] = this.renameValue(fields[originalName]?.type, fieldValue)
+    })
+    return renamed
+  }
+
+}
+
+/**
+ * Creates the transforms renaming the types, fields and arguments of a remote schema. The callbacks of a naming policy receive the names used by the remote, root types only go through the registry's renameTypes
+ */
+
+export function createNamingTransforms(schema: GraphQLSchema, naming: GQLRemoteNaming, defaults: NamingDefaults) {
+  if (naming === 'none') {
+    return []
+  }
+  const options: GQLRemoteNamingOptions = naming === 'default' ? {} : naming
+  const rootTypeNames = [schema.getQueryType(), schema.getMutationType(), schema.getSubscriptionType()].filter((type): type is GraphQLObjectType => !!type).map((type) => type.name)
+  const renameTypeCase = (typeName: string) => options.renameType ? options.renameType(typeName) : applyNameCase(typeName, options.types, defaults.renameType)
+  const renameType = (typeName: string) => rootTypeNames.includes(typeName) ? typeName : `${options.typePrefix ?? ''}${renameTypeCase(typeName)}`
+  const renameField = (typeName: string, fieldName: string) => options.renameField ? options.renameField(typeName, fieldName) : applyNameCase(fieldName, options.fields, defaults.renameField)
+  const renameArgument = (typeName: string, fieldName: string, argumentName: string) => options.renameArgument ? options.renameArgument(typeName, fieldName, argumentName) : applyNameCase(argumentName, options.arguments ?? 'none', (name) => name)
+  return [
+    new RenameFieldArguments(renameArgument),
+    new RenameObjectFields((typeName, fieldName) => renameField(typeName, fieldName)),
+    new RenameInterfaceFields((typeName, fieldName) => renameField(typeName, fieldName)),
+    new RenameInputFields((typeName, fieldName) => renameField(typeName, fieldName)),
+    new RenameRootFields((operationName, fieldName) => `${options.rootFieldPrefix ?? ''}${fieldName}`),
+    new RenameTypes(renameType),
+    new RenameRootTypes((typeName) => defaults.renameType(typeName)),
+  ]
+}
+
+/**
+ * Moves the fields of a root type under a single namespace field, the root type is looked up when the schema is transformed so it can be renamed by earlier transforms
+ */
+
+class WrapRootType {
+
+  private operation: OperationTypeNode
+  private typeName: string
+  private fieldName: string
+  private transformer: WrapType | null = null
+
+  constructor(operation: OperationTypeNode, typeName: string, fieldName: string) {
+    this.operation = operation
+    this.typeName = typeName
+    this.fieldName = fieldName
+  }
+
+  transformSchema(...args: Parameters<WrapType['transformSchema']>): GraphQLSchema {
+    const rootType = args[0].getRootType(this.operation)
+    if (!rootType) {
+      return args[0]
+    }
+    this.transformer = new WrapType(rootType.name, this.typeName, this.fieldName)
+    return this.transformer.transformSchema(...args)
+  }
+
+  transformRequest(...args: Parameters<WrapType['transformRequest']>): ReturnType<WrapType['transformRequest']> {
+    return this.transformer ? this.transformer.transformRequest(...args) : args[0]
+  }
+
+  transformResult(...args: Parameters<WrapType['transformResult']>): ReturnType<WrapType['transformResult']> {
+    return this.transformer ? this.transformer.transformResult(...args) : args[0]
+  }
+
+}
+
+/**
+ * Creates the transforms nesting the root query and mutation fields of a remote under a namespace field, subscriptions are left at the root
+ */
+
+export function createNamespaceTransforms(namespace?: GQLRemoteNamespace) {
+  if (!namespace) {
+    return []
+  }
+  const { field, queryType, mutationType, mutations = true }: GQLRemoteNamespaceOptions = typeof namespace === 'string' ? { field: namespace } : namespace
+  const transforms = [new WrapRootType(OperationTypeNode.QUERY, queryType ?? `${pascalCase(field)}Query`, field)]
+  if (mutations) {
+    transforms.push(new WrapRootType(OperationTypeNode.MUTATION, mutationType ?? `${pascalCase(field)}Mutation`, field))
+  }
+  return transforms
+}
@@ -0,0 +1,290 @@
+import { DirectiveNode, DocumentNode, GraphQLSchema, Kind, isEnumType, isInputObjectType, isInterfaceType, isObjectType, isScalarType, isUnionType } from 'graphql'
+
+import { GQLRegistryConflictKind, GQLRegistryHistoryEntry } from './GQLRegistry'
+
+export type GQLRegistryDiagnosticSeverity = 'error' | 'warning'
+
+export type GQLRegistryDiagnosticCode = 'ORPHAN_RESOLVER' | 'MISSING_ROOT_RESOLVER' | 'MISSING_TYPE_RESOLUTION' | 'MISSING_SCALAR_IMPLEMENTATION' | 'UNKNOWN_POLICY'
+
+export interface GQLRegistryDiagnostic {
+  code: GQLRegistryDiagnosticCode
+  severity: GQLRegistryDiagnosticSeverity
+  coordinate: string
+  message: string
+  extension: boolean
+  provenance: GQLRegistryHistoryEntry | null
+}
+
+export type GQLSchemaTypeKind = 'scalar' | 'object' | 'interface' | 'union' | 'enum' | 'input'
+
+export interface GQLSchemaTypeInfo {
+  kind: GQLSchemaTypeKind
+  members: string[]
+  interfaces: string[]
+  possibleTypes: string[]
+}
+
+export interface GQLSchemaIndex {
+  [typeName: string]: GQLSchemaTypeInfo
+}
+
+/**
+ * Diagnostic without its provenance, the registry looks the provenance up from its history using the kind and coordinate
+ */
+
+export interface GQLRegistryFinding extends Omit<GQLRegistryDiagnostic, 'provenance'> {
+  provenanceKind: GQLRegistryConflictKind
+}
+
+interface ResolverMap {
+  [typeName: string]: { [member: string]: unknown } | undefined
+}
+
+interface ValidateResolversArgs {
+  definitions: DocumentNode
+  extensions: DocumentNode
+  remoteSchemas: GraphQLSchema[]
+  remoteSchemasPending: boolean
+  resolvers: ResolverMap
+  extensionResolvers: ResolverMap
+  policies: string[]
+}
+
+const rootTypeNames = ['Query', 'Mutation', 'Subscription']
+
+const typeKindsByNodeKind: { [kind: string]: GQLSchemaTypeKind } = {
+  [Kind.SCALAR_TYPE_DEFINITION]: 'scalar',
+  [Kind.SCALAR_TYPE_EXTENSION]: 'scalar',
+  [Kind.OBJECT_TYPE_DEFINITION]: 'object',
+  [Kind.OBJECT_TYPE_EXTENSION]: 'object',
+  [Kind.INTERFACE_TYPE_DEFINITION]: 'interface',
+  [Kind.INTERFACE_TYPE_EXTENSION]: 'interface',
+  [Kind.UNION_TYPE_DEFINITION]: 'union',
+  [Kind.UNION_TYPE_EXTENSION]: 'union',
+  [Kind.ENUM_TYPE_DEFINITION]: 'enum',
+  [Kind.ENUM_TYPE_EXTENSION]: 'enum',
+  [Kind.INPUT_OBJECT_TYPE_DEFINITION]: 'input',
+  [Kind.INPUT_OBJECT_TYPE_EXTENSION]: 'input',
+}
+
+function addToIndex(index: GQLSchemaIndex, typeName: string, kind: GQLSchemaTypeKind, members: string[], interfaces: string[] = [], possibleTypes: string[] = []): void {
+  const existing = index[typeName]
+  if (!existing) {
+    index[typeName] = { kind, members: [...members], interfaces: [...interfaces], possibleTypes: [...possibleTypes] }
+    return
+  }
+  existing.members.push(...members.filter((member) => !existing.members.includes(member)))
+  existing.interfaces.push(...interfaces.filter((name) => !existing.interfaces.includes(name)))
+  existing.possibleTypes.push(...possibleTypes.filter((name) => !existing.possibleTypes.includes(name)))
+}
+
+/**
+ * Collects the types, fields, enum values and union members declared in a set of documents and schemas
+ */
+
+export function indexSchemaTypes(documents: DocumentNode[], schemas: GraphQLSchema[] = []): GQLSchemaIndex {
+  const index: GQLSchemaIndex = {}
+  documents.forEach((document) => {
+    document.definitions.forEach((definition) => {
+      const kind = typeKindsByNodeKind[definition.kind]
+      if (!kind || !('name' in definition) || !definition.name) {
+        return
+      }
+      const members = [...('fields' in definition ? definition.fields ?? [] : []), ...('values' in definition ? definition.values ?? [] : [])].map((member) => member.name.value)
+      const interfaces = ('interfaces' in definition ? definition.interfaces ?? [] : []).map((named) => named.name.value)
+      const possibleTypes = 'types' in definition ? (definition.types ?? []).map((named) => named.name.value) : []
+      addToIndex(index, definition.name.value, kind, members, interfaces, possibleTypes)
+    })
+  })
+  schemas.forEach((schema) => {
+    const typeMap = schema.getTypeMap()
+    Object.keys(typeMap).forEach((typeName: string) => {
+      const type = typeMap[typeName]
+      if (typeName.startsWith('__')) {
+        return
+      }
+      if (isObjectType(type) || isInterfaceType(type)) {
+        addToIndex(index, typeName, isObjectType(type) ? 'object' : 'interface', Object.keys(type.getFields()), type.getInterfaces().map((iface) => iface.name))
+      } else if (isInputObjectType(type)) {
+        addToIndex(index, typeName, 'input', Object.keys(type.getFields()))
+      } else if (isUnionType(type)) {
+        addToIndex(index, typeName, 'union', [], [], type.getTypes().map((member) => member.name))
+      } else if (isEnumType(type)) {
+        addToIndex(index, typeName, 'enum', type.getValues().map((value) => value.name))
+      } else if (isScalarType(type)) {
+        addToIndex(index, typeName, 'scalar', [])
+      }
+    })
+  })
+  return index
+}
+
+function getPossibleTypes(index: GQLSchemaIndex, typeName: string): string[] {
+  const type = index[typeName]
+  if (type.kind === 'union') {
+    return type.possibleTypes
+  }
+  return Object.keys(index).filter((name) => index[name].kind === 'object' && index[name].interfaces.includes(typeName))
+}
+
+function findOrphanResolvers(index: GQLSchemaIndex, resolvers: ResolverMap, extension: boolean, skipUnknown: boolean): GQLRegistryFinding[] {
+  const findings: GQLRegistryFinding[] = []
+  Object.keys(resolvers).forEach((typeName: string) => {
+    const type = index[typeName]
+    if (!type) {
+      if (!skipUnknown) {
+        findings.push({
+          code: 'ORPHAN_RESOLVER',
+          severity: 'error',
+          coordinate: typeName,
+          message: `Resolvers are registered for ${typeName} but the type is not defined in the schema`,
+          extension,
+          provenanceKind: 'resolver',
+        })
+      }
+      return
+    }
+    const resolver = resolvers[typeName]
+    if (type.kind === 'scalar' || !resolver || typeof resolver !== 'object' || ![Object.prototype, null].includes(Object.getPrototypeOf(resolver))) {
+      return
+    }
+    Object.keys(resolver).forEach((member: string) => {
+      if (member.startsWith('__') || type.members.includes(member) || skipUnknown) {
+        return
+      }
+      findings.push({
+        code: 'ORPHAN_RESOLVER',
+        severity: 'error',
+        coordinate: `${typeName}.${member}`,
+        message: `A resolver is registered for ${typeName}.${member} but ${typeName} has no ${type.kind === 'enum' ? 'value' : 'field'} named ${member}`,
+        extension,
+        provenanceKind: 'resolver',
+      })
+    })
+  })
+  return findings
+}
+
+function findMissingRootResolvers(document: DocumentNode, resolvers: ResolverMap, extension: boolean): GQLRegistryFinding[] {
+  const findings: GQLRegistryFinding[] = []
+  document.definitions.forEach((definition) => {
+    if ((definition.kind !== Kind.OBJECT_TYPE_DEFINITION && definition.kind !== Kind.OBJECT_TYPE_EXTENSION) || !rootTypeNames.includes(definition.name.value)) {
+      return
+    }
+    const typeName = definition.name.value
+    definition.fields?.forEach((field) => {
+      const resolver = resolvers[typeName]?.[field.name.value]
+      const implemented = typeName === 'Subscription' ? typeof resolver === 'object' && resolver !== null && 'subscribe' in resolver && !!resolver.subscribe : resolver !== undefined
+      if (implemented) {
+        return
+      }
+      findings.push({
+        code: 'MISSING_ROOT_RESOLVER',
+        severity: 'warning',
+        coordinate: `${typeName}.${field.name.value}`,
+        message: typeName === 'Subscription'
+          ? `Subscription.${field.name.value} has no subscribe function`
+          : `${typeName}.${field.name.value} has no resolver and will always resolve to null`,
+        extension,
+        provenanceKind: 'field',
+      })
+    })
+  })
+  return findings
+}
+
+function findAbstractTypesWithoutResolution(index: GQLSchemaIndex, document: DocumentNode, resolvers: ResolverMap): GQLRegistryFinding[] {
+  const findings: GQLRegistryFinding[] = []
+  document.definitions.forEach((definition) => {
+    if (definition.kind !== Kind.INTERFACE_TYPE_DEFINITION && definition.kind !== Kind.UNION_TYPE_DEFINITION) {
+      return
+    }
+    const typeName = definition.name.value
+    if (resolvers[typeName]?.__resolveType) {
+      return
+    }
+    const possibleTypes = getPossibleTypes(index, typeName)
+    if (possibleTypes.length && possibleTypes.every((name) => resolvers[name]?.__isTypeOf)) {
+      return
+    }
+    findings.push({
+      code: 'MISSING_TYPE_RESOLUTION',
+      severity: 'warning',
+      coordinate: typeName,
+      message: `${definition.kind === Kind.UNION_TYPE_DEFINITION ? 'Union' : 'Interface'} ${typeName} has no __resolveType and ${possibleTypes.length ? 'not every possible type has an __isTypeOf' : 'no possible types'}, values must carry a __typename to be resolved`,
+      extension: false,
+      provenanceKind: 'type',
+    })
+  })
+  return findings
+}
+
+function findScalarsWithoutImplementation(document: DocumentNode, resolvers: ResolverMap): GQLRegistryFinding[] {
+  const findings: GQLRegistryFinding[] = []
+  document.definitions.forEach((definition) => {
+    if (definition.kind !== Kind.SCALAR_TYPE_DEFINITION || resolvers[definition.name.value]) {
+      return
+    }
+    findings.push({
+      code: 'MISSING_SCALAR_IMPLEMENTATION',
+      severity: 'warning',
+      coordinate: definition.name.value,
+      message: `Scalar ${definition.name.value} has no implementation, its values will be passed through without serialization or parsing`,
+      extension: false,
+      provenanceKind: 'type',
+    })
+  })
+  return findings
+}
+
+function getPolicyNames(directives: readonly DirectiveNode[] = []): string[] {
+  return directives
+    .filter((directive) => directive.name.value === 'policy')
+    .map((directive) => directive.arguments?.find((arg) => arg.name.value === 'name')?.value)
+    .filter((value): value is Extract<typeof value, { kind: Kind.STRING }> => value?.kind === Kind.STRING)
+    .map((value) => value.value)
+}
+
+function findUnknownPolicies(document: DocumentNode, policies: string[], extension: boolean): GQLRegistryFinding[] {
+  const findings: GQLRegistryFinding[] = []
+  const report = (coordinate: string, directives: readonly DirectiveNode[] | undefined, provenanceKind: GQLRegistryConflictKind) => {
+    getPolicyNames(directives).filter((policy) => !policies.includes(policy)).forEach((policy) => {
+      findings.push({
+        code: 'UNKNOWN_POLICY',
+        severity: 'error',
+        coordinate,
+        message: `${coordinate} uses the policy ${policy} which is not registered`,
+        extension,
+        provenanceKind,
+      })
+    })
+  }
+  document.definitions.forEach((definition) => {
+    if (definition.kind !== Kind.OBJECT_TYPE_DEFINITION && definition.kind !== Kind.OBJECT_TYPE_EXTENSION) {
+      return
+    }
+    const typeName = definition.name.value
+    report(typeName, definition.directives, 'type')
+    definition.fields?.forEach((field) => report(`${typeName}.${field.name.value}`, field.directives, 'field'))
+  })
+  return findings
+}
+
+/**
+ * Cross checks registered resolvers against the registered definitions, extension resolvers for types that may come from remote schemas which are not loaded yet are not reported as orphans
+ */
+
+export function validateResolvers({ definitions, extensions, remoteSchemas, remoteSchemasPending, resolvers, extensionResolvers, policies }: ValidateResolversArgs): GQLRegistryFinding[] {
+  const localIndex = indexSchemaTypes([definitions])
+  const gatewayIndex = indexSchemaTypes([definitions, extensions], remoteSchemas)
+  return [
+    ...findOrphanResolvers(localIndex, resolvers, false, false),
+    ...findOrphanResolvers(gatewayIndex, extensionResolvers, true, remoteSchemasPending),
+    ...findMissingRootResolvers(definitions, resolvers, false),
+    ...findMissingRootResolvers(extensions, extensionResolvers, true),
+    ...findAbstractTypesWithoutResolution(localIndex, definitions, resolvers),
+    ...findScalarsWithoutImplementation(definitions, resolvers),
+    ...findUnknownPolicies(definitions, policies, false),
+    ...findUnknownPolicies(extensions, policies, true),
+  ]
+}
@@ -0,0 +1,235 @@
+import { GraphQLArgument, GraphQLDirective, GraphQLFieldMap, GraphQLInputField, GraphQLNamedType, GraphQLSchema, GraphQLType, isEnumType, isInputObjectType, isInterfaceType, isListType, isNamedType, isNonNullType, isObjectType, isRequiredArgument, isRequiredInputField, isSpecifiedDirective, isSpecifiedScalarType, isUnionType } from 'graphql'
+
+export type GQLSchemaChangeAction = 'added' | 'removed' | 'changed'
+
+export type GQLSchemaChangeKind = 'type' | 'field' | 'argument' | 'inputField' | 'enumValue' | 'unionMember' | 'interface' | 'directive'
+
+export type GQLSchemaChangeSeverity = 'breaking' | 'dangerous' | 'safe'
+
+export interface GQLSchemaChange {
+  action: GQLSchemaChangeAction
+  kind: GQLSchemaChangeKind
+  severity: GQLSchemaChangeSeverity
+  coordinate: string
+  detail: string
+}
+
+function getTypeKind(type: GraphQLNamedType): string {
+  if (isObjectType(type)) {
+    return 'object'
+  }
+  if (isInterfaceType(type)) {
+    return 'interface'
+  }
+  if (isUnionType(type)) {
+    return 'union'
+  }
+  if (isEnumType(type)) {
+    return 'enum'
+  }
+  if (isInputObjectType(type)) {
+    return 'input'
+  }
+  return 'scalar'
+}
+
+function getNamedTypes(schema: GraphQLSchema): { [name: string]: GraphQLNamedType } {
+  const types: { [name: string]: GraphQLNamedType } = {}
+  const typeMap = schema.getTypeMap()
+  Object.keys(typeMap).filter((name) => !name.startsWith('__') && !isSpecifiedScalarType(typeMap[name])).forEach((name: string) => {
+    types[name] = typeMap[name]
+  })
+  return types
+}
+
+/**
+ * An output type may become non null, clients reading it still get a value of the type they expect
+ */
+
+function isSafeOutputTypeChange(previous: GraphQLType, next: GraphQLType): boolean {
+  if (isListType(previous)) {
+    return (isListType(next) && isSafeOutputTypeChange(previous.ofType, next.ofType)) || (isNonNullType(next) && isSafeOutputTypeChange(previous, next.ofType))
+  }
+  if (isNonNullType(previous)) {
+    return isNonNullType(next) && isSafeOutputTypeChange(previous.ofType, next.ofType)
+  }
+  return (isNamedType(next) && next.name === previous.name) || (isNonNullType(next) && isSafeOutputTypeChange(previous, next.ofType))
+}
+
+/**
+ * An input type may become nullable, values clients already send are still accepted
+ */
+
+function isSafeInputTypeChange(previous: GraphQLType, next: GraphQLType): boolean {
+  if (isListType(previous)) {
+    return isListType(next) && isSafeInputTypeChange(previous.ofType, next.ofType)
+  }
+  if (isNonNullType(previous)) {
+    return (isNonNullType(next) && isSafeInputTypeChange(previous.ofType, next.ofType)) || (!isNonNullType(next) && isSafeInputTypeChange(previous.ofType, next))
+  }
+  return isNamedType(next) && next.name === previous.name
+}
+
+function diffNames(kind: GQLSchemaChangeKind, previous: string[], next: string[], coordinateOf: (name: string) => string, describe: (name: string, action: GQLSchemaChangeAction) => string, addedSeverity: (name: string) => GQLSchemaChangeSeverity = () => 'safe'): GQLSchemaChange[] {
+  return [
+    ...previous.filter((name) => !next.includes(name)).map((name): GQLSchemaChange => ({ action: 'removed', kind, severity: 'breaking', coordinate: coordinateOf(name), detail: describe(name, 'removed') })),
+    ...next.filter((name) => !previous.includes(name)).map((name): GQLSchemaChange => ({ action: 'added', kind, severity: addedSeverity(name), coordinate: coordinateOf(name), detail: describe(name, 'added') })),
+  ]
+}
+
+function diffArguments(coordinate: string, previous: readonly GraphQLArgument[], next: readonly GraphQLArgument[]): GQLSchemaChange[] {
+  const argumentCoordinate = (name: string) => `${coordinate}(${name}:)`
+  const isRequired = (name: string) => next.some((arg) => arg.name === name && isRequiredArgument(arg))
+  const changes = diffNames('argument', previous.map((arg) => arg.name), next.map((arg) => arg.name), argumentCoordinate, (name, action) => {
+    return `${action === 'added' && isRequired(name) ? 'Required argument' : 'Argument'} ${name} of ${coordinate} was ${action}`
+  }, (name) => isRequired(name) ? 'breaking' : 'dangerous')
+  previous.forEach((arg) => {
+    const nextArg = next.find((candidate) => candidate.name === arg.name)
+    if (!nextArg) {
+      return
+    }
+    if (String(nextArg.type) !== String(arg.type)) {
+      changes.push({ action: 'changed', kind: 'argument', severity: isSafeInputTypeChange(arg.type, nextArg.type) ? 'safe' : 'breaking', coordinate: argumentCoordinate(arg.name), detail: `Argument ${arg.name} of ${coordinate} changed type from ${arg.type} to ${nextArg.type}` })
+    }
+    if (JSON.stringify(arg.defaultValue) !== JSON.stringify(nextArg.defaultValue)) {
+      changes.push({ action: 'changed', kind: 'argument', severity: 'dangerous', coordinate: argumentCoordinate(arg.name), detail: `Default value of argument ${arg.name} of ${coordinate} changed from ${JSON.stringify(arg.defaultValue)} to ${JSON.stringify(nextArg.defaultValue)}` })
+    }
+  })
+  return changes
+}
+
+function diffFields(typeName: string, previous: GraphQLFieldMap<unknown, unknown>, next: GraphQLFieldMap<unknown, unknown>): GQLSchemaChange[] {
+  const changes = diffNames('field', Object.keys(previous), Object.keys(next), (name) => `${typeName}.${name}`, (name, action) => `${typeName}.${name} was ${action}`)
+  Object.keys(previous).filter((name) => next[name]).forEach((name: string) => {
+    const coordinate = `${typeName}.${name}`
+    const previousField = previous[name]
+    const nextField = next[name]
+    if (String(previousField.type) !== String(nextField.type)) {
+      changes.push({ action: 'changed', kind: 'field', severity: isSafeOutputTypeChange(previousField.type, nextField.type) ? 'safe' : 'breaking', coordinate, detail: `${coordinate} changed type from ${previousField.type} to ${nextField.type}` })
+    }
+    changes.push(...diffArguments(coordinate, previousField.args, nextField.args))
+  })
+  return changes
+}
+
+function diffInputFields(typeName: string, previous: { [name: string]: GraphQLInputField }, next: { [name: string]: GraphQLInputField }): GQLSchemaChange[] {
+  const changes = diffNames('inputField', Object.keys(previous), Object.keys(next), (name) => `${typeName}.${name}`, (name, action) => {
+    return `${action === 'added' && isRequiredInputField(next[name]) ? 'Required input field' : 'Input field'} ${typeName}.${name} was ${action}`
+  }, (name) => isRequiredInputField(next[name]) ? 'breaking' : 'dangerous')
+  Object.keys(previous).filter((name) => next[name]).forEach((name: string) => {
+    const coordinate = `${typeName}.${name}`
+    if (String(previous[name].type) !== String(next[name].type)) {
+      changes.push({ action: 'changed', kind: 'inputField', severity: isSafeInputTypeChange(previous[name].type, next[name].type) ? 'safe' : 'breaking', coordinate, detail: `${coordinate} changed type from ${previous[name].type} to ${next[name].type}` })
+    }
+  })
+  return changes
+}
+
+function diffDirectives(previous: readonly GraphQLDirective[], next: readonly GraphQLDirective[]): GQLSchemaChange[] {
+  const previousDirectives = previous.filter((directive) => !isSpecifiedDirective(directive))
+  const nextDirectives = next.filter((directive) => !isSpecifiedDirective(directive))
+  const changes = diffNames('directive', previousDirectives.map((directive) => directive.name), nextDirectives.map((directive) => directive.name), (name) => `@${name}`, (name, action) => `Directive @${name} was ${action}`)
+  previousDirectives.forEach((directive) => {
+    const nextDirective = nextDirectives.find((candidate) => candidate.name === directive.name)
+    if (!nextDirective) {
+      return
+    }
+    const coordinate = `@${directive.name}`
+    changes.push(...diffArguments(coordinate, directive.args, nextDirective.args))
+    directive.locations.filter((location) => !nextDirective.locations.includes(location)).forEach((location) => {
+      changes.push({ action: 'changed', kind: 'directive', severity: 'breaking', coordinate, detail: `${location} was removed from the locations of ${coordinate}` })
+    })
+    if (directive.isRepeatable && !nextDirective.isRepeatable) {
+      changes.push({ action: 'changed', kind: 'directive', severity: 'breaking', coordinate, detail: `${coordinate} is no longer repeatable` })
+    }
+  })
+  return changes
+}
+
+/**
+ * Lists the types, fields, arguments, enum values, union members, interfaces and directives added, removed or changed between two schemas. Breaking changes can make existing operations fail, dangerous changes keep them valid but may change what they return
+ */
+
+export function diffSchemas(previousSchema: GraphQLSchema, nextSchema: GraphQLSchema): GQLSchemaChange[] {
+  const previousTypes = getNamedTypes(previousSchema)
+  const nextTypes = getNamedTypes(nextSchema)
+  const changes = diffNames('type', Object.keys(previousTypes), Object.keys(nextTypes), (name) => name, (name, action) => `Type ${name} was ${action}`)
+  Object.keys(previousTypes).filter((name) => nextTypes[name]).forEach((name: string) => {
+    const previous = previousTypes[name]
+    const next = nextTypes[name]
+    if (getTypeKind(previous) !== getTypeKind(next)) {
+      changes.push({ action: 'changed', kind: 'type', severity: 'breaking', coordinate: name, detail: `${name} changed from ${getTypeKind(previous)} to ${getTypeKind(next)}` })
+      return
+    }
+    if ((isObjectType(previous) && isObjectType(next)) || (isInterfaceType(previous) && isInterfaceType(next))) {
+      changes.push(...diffFields(name, previous.getFields(), next.getFields()))
+      changes.push(...diffNames('interface', previous.getInterfaces().map((iface) => iface.name), next.getInterfaces().map((iface) => iface.name), () => name, (iface, action) => `${name} ${action === 'added' ? 'now implements' : 'no longer implements'} ${iface}`, () => 'dangerous'))
+    } else if (isInputObjectType(previous) && isInputObjectType(next)) {
+      changes.push(...diffInputFields(name, previous.getFields(), next.getFields()))
+    } else if (isEnumType(previous) && isEnumType(next)) {
+      changes.push(...diffNames('enumValue', previous.getValues().map((value) => value.name), next.getValues().map((value) => value.name), (value) => `${name}.${value}`, (value, action) => `Enum value ${name}.${value} was ${action}`, () => 'dangerous'))
+    } else if (isUnionType(previous) && isUnionType(next)) {
+      changes.push(...diffNames('unionMember', previous.getTypes().map((member) => member.name), next.getTypes().map((member) => member.name), () => name, (member, action) => `${member} was ${action} ${action === 'added' ? 'to' : 'from'} union ${name}`, () => 'dangerous'))
+    }
+  })
+  changes.push(...diffDirectives(previousSchema.getDirectives(), nextSchema.getDirectives()))
+  return changes
+}
+
+export function hasBreakingChanges(changes: GQLSchemaChange[]): boolean {
+  return changes.some((change) => change.severity === 'breaking')
+}
+
+/**
+ * Renders a line by line diff of two texts, unchanged lines further than `context` lines away from a change are left out
+ */
+
+export function diffLines(previous: string, next: string, context = 3): string {
+  const previousLines = previous.split('\n')
+  const nextLines = next.split('\n')
+  let start = 0
+  while (start < previousLines.length && start < nextLines.length && previousLines[start] === nextLines[start]) {
+    start++
+  }
+  let previousEnd = previousLines.length
+  let nextEnd = nextLines.length
+  while (previousEnd > start && nextEnd > start && previousLines[previousEnd - 1] === nextLines[nextEnd - 1]) {
+    previousEnd--
+    nextEnd--
+  }
+  const removed = previousLines.slice(start, previousEnd)
+  const added = nextLines.slice(start, nextEnd)
+  const common: Uint32Array[] = []
+  for (let i = removed.length; i >= 0; i--) {
+    common[i] = new Uint32Array(added.length + 1)
+    for (let j = added.length - 1; i < removed.length && j >= 0; j--) {
+      common[i][j] = removed[i] === added[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+  const lines: string[] = previousLines.slice(0, start).map((line) => `  ${line}`)
+  let i = 0
+  let j = 0
+  while (i < removed.length || j < added.length) {
+    if (i < removed.length && j < added.length && removed[i] === added[j]) {
+      lines.push(`  ${removed[i++]}`)
+      j++
+    } else if (i < removed.length && (j === added.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push(`- ${removed[i++]}`)
+    } else {
+      lines.push(`+ ${added[j++]}`)
+    }
+  }
+  lines.push(...previousLines.slice(previousEnd).map((line) => `  ${line}`))
+  const changed = lines.map((line, index) => line.startsWith(' ') ? -1 : index).filter((index) => index >= 0)
+  const output: string[] = []
+  for (let l = 0; l < lines.length; l++) {
+    if (!changed.some((index) => Math.abs(index - l) <= context)) {
+      continue
+    }
+    if (output.length && !changed.some((index) => Math.abs(index - (l - 1)) <= context)) {
+      output.push('  ...')
+    }
+    output.push(lines[l])
+  }
+  return output.join('\n')
+}
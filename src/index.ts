@@ -1,2 +1,15 @@
 export * from './GQLRegistry'
-export * from './GQLRegistryPlugin'
\ No newline at end of file
+export * from './GQLRegistryAuth'
+export * from './GQLRegistryBatching'
+export * from './GQLRegistryCodegen'
+export * from './GQLRegistryContext'
+export * from './GQLRegistryDataSources'
+export * from './GQLRegistryFederation'
+export * from './GQLRegistryMerge'
+export * from './GQLRegistryMiddleware'
+export * from './GQLRegistryModules'
+export * from './GQLRegistryMount'
+export * from './GQLRegistryPlugin'
+export * from './GQLRegistryRemote'
+export * from './GQLRegistryValidation'
+export * from './GQLSchemaDiff'